@@ -0,0 +1,43 @@
+import type { ApiError } from '../shared/types/api';
+import type { RouteDefinition } from '../shared/api/routes';
+import { formatFieldErrors, validate } from '../shared/validation/schema';
+
+export type ApiResult<Res> =
+  | { ok: true; data: Res }
+  | { ok: false; error: ApiError };
+
+const CONFLICT_RETRIES = 2;
+
+// Call a route from the shared contract. The body is checked against the same schema the server uses, so bad input
+// never leaves the client, and conflicts with another action for this player are retried since they are safe to resend.
+export async function callApi<Req, Res>(
+  route: RouteDefinition<Req, Res>,
+  ...[body]: Req extends void ? [] : [Req] // GET routes take no body
+): Promise<ApiResult<Res>> {
+  const result = validate(route.request, body);
+  if (!result.valid) {
+    return {
+      ok: false,
+      error: {
+        status: 'error',
+        code: 'invalid_request',
+        message: `Invalid request: ${formatFieldErrors(result.errors)}`,
+        errors: result.errors
+      }
+    };
+  }
+
+  const init: RequestInit = route.method === 'GET'
+    ? { method: 'GET' }
+    : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(result.value) };
+
+  let response = await fetch(route.path, init);
+  for (let retry = 0; response.status === 409 && retry < CONFLICT_RETRIES; retry++) {
+    response = await fetch(route.path, init);
+  }
+
+  if (!response.ok) {
+    return { ok: false, error: await response.json() as ApiError };
+  }
+  return { ok: true, data: await response.json() as Res };
+}
@@ -2,16 +2,36 @@
 import * as THREE from 'three';
 import type { 
   GameState, 
-  InitResponse, 
-  PlantTreeResponse, 
-  WaterTreeResponse, 
-  HarvestTreeResponse, 
-  BuySeedsResponse, 
-  BuyLandResponse, 
-  MovePlayerResponse, 
+  GameStateDelta,
   ChatMessage,
-  Player
+  InfectedTree,
+  LandPlot,
+  SeasonInfo,
+  LevelUp,
+  OfflineSummary,
+  Player,
+  RealtimeMessage,
+  Tree,
+  TreeType,
+  TreeStageChange,
+  TreeStatusChange,
+  Weather
 } from '../shared/types/api';
+import { getFoliageColor, getSpecies, TREE_TYPES } from '../shared/data/species';
+import { getItem, ItemId } from '../shared/data/items';
+import { getDisease } from '../shared/data/diseases';
+import { getColorVariant } from '../shared/data/genetics';
+import { getRecipe, RECIPE_IDS, RecipeId } from '../shared/data/recipes';
+import { experienceForLevel, levelProgress } from '../shared/data/progression';
+import { ACHIEVEMENTS, getAchievementProgress } from '../shared/data/achievements';
+import { getWeather, getWeatherAt, SNOWY_BIOMES } from '../shared/data/weather';
+import { getSeason, getSeasonAt } from '../shared/data/seasons';
+import { clampToWorld, getBiomeTypeAt, getTerrainHeight, isWithinReach, PLAYER_SPEED, WORLD_HEIGHT, WORLD_WIDTH } from '../shared/data/world';
+import { ROUTES } from '../shared/api/routes';
+import { applyGameStateDelta } from '../shared/api/delta';
+import { getAreaChannel, getAreaChannelsAround, getChatChannel } from '../shared/api/realtime';
+import { callApi } from './api';
+import { subscribeToChannels } from './realtime';
 
 // Game initialization and authentication
 interface GameAuth {
@@ -30,20 +50,40 @@ let cameraJoystickActive = false;
 let movementJoystickCenter = { x: 0, y: 0 };
 let cameraJoystickCenter = { x: 0, y: 0 };
 
+// What we know of other players: enough to draw them where they are
+type RemotePlayer = Pick<Player, 'id' | 'username' | 'position'>;
+
+const AVATAR_FOLLOW_RATE = 0.15; // Fraction of the way to its target a remote avatar moves each frame
+const CHAT_HISTORY = 20; // Messages kept in the chat panel
+
 // Global variables
 let scene: THREE.Scene;
 let camera: THREE.PerspectiveCamera;
 let renderer: THREE.WebGLRenderer;
 let playerAvatar: THREE.Mesh;
 let gameState: GameState | null = null;
-let nearbyPlayers: Player[] = [];
+let gameStateVersion = 0; // Stored version the local game state matches
+let gameStateResync: Promise<void> | null = null;
+let nearbyPlayers: RemotePlayer[] = [];
 let treeMeshes: THREE.Mesh[] = [];
-let playerMeshes: THREE.Mesh[] = [];
+const neighbourTrees: Map<string, Tree> = new Map(); // Other players' trees, as they change nearby
+let neighbourTreeMeshes: THREE.Mesh[] = []; // Shown but not clickable
+let infectionMarkers: THREE.Sprite[] = [];
+let nearbyInfections: InfectedTree[] = []; // Infected trees on neighbouring players' land
+let selectedTreeId: string | null = null; // Tree shown in the detail panel
+let landPlotMeshes: THREE.Mesh[] = [];
+const playerMeshes: Map<string, THREE.Mesh> = new Map();
+const avatarTargets: Map<string, THREE.Vector3> = new Map(); // Where each remote avatar is gliding to
 let usernameLabels: Map<string, THREE.Sprite> = new Map();
 let chatMessages: ChatMessage[] = [];
-let chatUpdateInterval: NodeJS.Timeout | null = null;
 let movementThrottle = 0;
+let lastMovementAt = 0; // When handleMovement last ran, so that walking speed doesn't depend on frame rate
+let positionUnsent = false; // Moved since the server was last told where the player is
 let keys: Record<string, boolean> = {};
+let selectedTreeType: TreeType = TREE_TYPES[0] ?? 'oak'; // Species used for planting and buying seeds
+let weatherParticles: THREE.Points | null = null;
+let currentWeatherKey: string | null = null; // Weather and region the scene was last set up for
+let currentSeason: SeasonInfo = getSeasonAt(Date.now());
 
 // UI Elements
 let minimapCanvas: HTMLCanvasElement;
@@ -68,10 +108,13 @@ async function initGame(auth: GameAuth): Promise<void> {
 function handleMovement(): void {
   if (!playerAvatar || !gameState || !camera) return;
 
-  const moveSpeed = 0.5; // Slower movement for massive world
+  const now = performance.now();
+  const elapsed = lastMovementAt ? Math.min((now - lastMovementAt) / 1000, 0.1) : 0; // Seconds, capped after a stall
+  lastMovementAt = now;
+
   let moved = false;
-  let newX = playerAvatar.position.x;
-  let newZ = playerAvatar.position.z;
+  let dirX = 0;
+  let dirZ = 0;
 
   // Get camera rotation for relative movement
   const cameraRotation = camera.rotation.y;
@@ -84,26 +127,26 @@ function handleMovement(): void {
 
   if (keys['w'] || keys['arrowup']) {
     // Move forward relative to camera
-    newX += forwardX * moveSpeed;
-    newZ += forwardZ * moveSpeed;
+    dirX += forwardX;
+    dirZ += forwardZ;
     moved = true;
   }
   if (keys['s'] || keys['arrowdown']) {
     // Move backward relative to camera
-    newX -= forwardX * moveSpeed;
-    newZ -= forwardZ * moveSpeed;
+    dirX -= forwardX;
+    dirZ -= forwardZ;
     moved = true;
   }
   if (keys['a'] || keys['arrowleft']) {
     // Move left relative to camera
-    newX -= rightX * moveSpeed;
-    newZ -= rightZ * moveSpeed;
+    dirX -= rightX;
+    dirZ -= rightZ;
     moved = true;
   }
   if (keys['d'] || keys['arrowright']) {
     // Move right relative to camera
-    newX += rightX * moveSpeed;
-    newZ += rightZ * moveSpeed;
+    dirX += rightX;
+    dirZ += rightZ;
     moved = true;
   }
   
@@ -115,28 +158,46 @@ function handleMovement(): void {
     camera.rotation.y -= 0.05;
   }
 
-  if (moved) {
-    // Keep player within massive world bounds
-    const worldBounds = 1000; // Half of world size (2000/2)
-    newX = Math.max(-worldBounds, Math.min(worldBounds, newX));
-    newZ = Math.max(-worldBounds, Math.min(worldBounds, newZ));
+  // Walk at the same speed in every direction, diagonals included, as the server allows
+  const length = Math.hypot(dirX, dirZ);
+  if (moved && length > 0) {
+    const step = (PLAYER_SPEED * elapsed) / length;
+    
+    // Keep player within the world's bounds
+    const { x: newX, z: newZ } = clampToWorld(
+      playerAvatar.position.x + dirX * step,
+      playerAvatar.position.z + dirZ * step
+    );
     
     // Update player position immediately for smooth movement
-    playerAvatar.position.set(newX, 2, newZ);
-    
-    // Update camera to follow player with better angle for massive world
-    camera.position.set(newX, 50, newZ + 100);
-    camera.lookAt(newX, 0, newZ);
+    placePlayerAvatar(newX, newZ);
+    positionUnsent = true;
     
     // Throttle server updates to avoid spam
     movementThrottle++;
     if (movementThrottle >= 30) { // Update server every 30 frames (0.5 seconds at 60fps)
       movementThrottle = 0;
+      positionUnsent = false;
       movePlayer(newX, 0, newZ);
     }
+  } else if (positionUnsent) {
+    // Tell the server where the player stopped, so that what they do next is checked from there
+    positionUnsent = false;
+    void movePlayer(playerAvatar.position.x, 0, playerAvatar.position.z);
   }
 }
 
+// Stand the player on the ground at a position, with the camera following
+function placePlayerAvatar(x: number, z: number): void {
+  playerAvatar.position.set(x, getTerrainHeight(x, z) + 1, z);
+  
+  // Update camera to follow player with better angle for massive world
+  camera.position.set(x, 50, z + 100);
+  camera.lookAt(x, 0, z);
+}
+
+const INFECTION_COLOR = '#9400D3'; // Marks diseased trees in the scene and on the minimap
+
 function renderMinimap(): void {
   if (!minimapCanvas || !gameState) return;
   
@@ -248,53 +309,16 @@ function renderMinimap(): void {
   });
 
   // Draw trees with enhanced color coding
-  gameState.trees.forEach((tree: any) => {
+  gameState.trees.forEach((tree: Tree) => {
     if (tree.x >= viewStartX && tree.x < viewEndX && 
         tree.z >= viewStartZ && tree.z < viewEndZ) {
       const x = (tree.x - viewStartX) * scale;
       const y = (tree.z - viewStartZ) * scale;
 
-      // Enhanced tree colors with different sizes
-      let treeColor = '#8B4513'; // Default brown
-      let treeSize = 1.5;
-      
-      switch (tree.type) {
-        case 'oak':
-          treeColor = '#8B4513'; // Dark brown trunk
-          treeSize = 2;
-          break;
-        case 'pine':
-          treeColor = '#228B22'; // Forest green
-          treeSize = 1.8;
-          break;
-        case 'cherry':
-          treeColor = '#FF69B4'; // Hot pink
-          treeSize = 1.8;
-          break;
-        case 'maple':
-          treeColor = '#FF4500'; // Orange red
-          treeSize = 2;
-          break;
-        case 'birch':
-          treeColor = '#F5F5DC'; // Beige
-          treeSize = 1.5;
-          break;
-        case 'willow':
-          treeColor = '#9ACD32'; // Yellow green
-          treeSize = 1.8;
-          break;
-        case 'cedar':
-          treeColor = '#2F4F4F'; // Dark slate gray
-          treeSize = 2;
-          break;
-        case 'apple':
-          treeColor = '#32CD32'; // Lime green
-          treeSize = 1.8;
-          break;
-        default:
-          treeColor = '#FFD700'; // Gold for unknown types
-          treeSize = 1.5;
-      }
+      // Colors and sizes come from the species registry
+      const species = getSpecies(tree.type);
+      const treeColor = tree.status === 'alive' ? species.colors.minimap : '#8B7355';
+      const treeSize = species.minimapSize;
       
       // Draw tree with glow effect
       ctx.shadowColor = treeColor;
@@ -304,6 +328,32 @@ function renderMinimap(): void {
       ctx.arc(x, y, treeSize, 0, Math.PI * 2);
       ctx.fill();
       ctx.shadowBlur = 0; // Reset shadow
+
+      // Ring infected trees so they stand out
+      if (tree.infection) {
+        ctx.strokeStyle = INFECTION_COLOR;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.arc(x, y, treeSize + 2, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+  });
+
+  // Neighbours' infected trees, which can spread onto our land
+  nearbyInfections.forEach(infected => {
+    if (infected.x >= viewStartX && infected.x < viewEndX &&
+        infected.z >= viewStartZ && infected.z < viewEndZ) {
+      const x = (infected.x - viewStartX) * scale;
+      const y = (infected.z - viewStartZ) * scale;
+      ctx.strokeStyle = INFECTION_COLOR;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(x - 2, y - 2);
+      ctx.lineTo(x + 2, y + 2);
+      ctx.moveTo(x + 2, y - 2);
+      ctx.lineTo(x - 2, y + 2);
+      ctx.stroke();
     }
   });
 
@@ -415,6 +465,96 @@ function showMessage(message: string, type: 'success' | 'error' | 'info' = 'info
   }, 3000);
 }
 
+// Celebrate reaching a new level and list what it unlocked
+function showLevelUp(levelUp?: LevelUp | null): void {
+  if (!levelUp) return;
+  
+  const celebration = document.getElementById('level-up-celebration');
+  if (!celebration) return;
+  
+  celebration.innerHTML = `
+    <div class="level-up-title">🎉 Level ${levelUp.toLevel}! 🎉</div>
+    ${levelUp.unlocks.map(unlock => `<div class="level-up-unlock">Unlocked: ${unlock}</div>`).join('')}
+  `;
+  celebration.style.display = 'block';
+  
+  setTimeout(() => {
+    celebration.style.display = 'none';
+  }, 4000);
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  return `${Math.floor(hours / 24)} days`;
+}
+
+// "While you were away" panel shown when returning after a long break
+function showOfflineSummary(summary: OfflineSummary): void {
+  const panel = document.getElementById('offline-summary');
+  if (!panel) return;
+  
+  const grown = summary.stageChanges.filter(change => change.toStage >= 5).length;
+  const grew = summary.stageChanges.length;
+  const withered = summary.statusChanges.filter(change => change.toStatus === 'withered').length;
+  const died = summary.statusChanges.filter(change => change.toStatus === 'dead').length;
+  
+  const lines = [
+    grew > 0 ? `🌱 ${grew} tree${grew > 1 ? 's' : ''} grew${grown > 0 ? `, ${grown} ready to harvest` : ''}` : '',
+    summary.healthLost > 0 ? `💔 Your trees lost ${summary.healthLost} health in total` : '',
+    withered > 0 ? `🥀 ${withered} tree${withered > 1 ? 's' : ''} withered - water them quickly!` : '',
+    died > 0 ? `💀 ${died} tree${died > 1 ? 's' : ''} died` : '',
+    ...summary.newInfections.map(infection => {
+      const disease = getDisease(infection.disease);
+      return `${disease.icon} Your ${getSpecies(infection.treeType).name} caught ${disease.name}`;
+    }),
+    ...summary.weather.map(({ type, count }) => {
+      const weather = getWeather(type);
+      return `${weather.icon} ${count} spell${count > 1 ? 's' : ''} of ${weather.name.toLowerCase()}`;
+    }),
+    summary.newNeighbours.length > 0 ? `👋 New neighbours: ${summary.newNeighbours.join(', ')}` : ''
+  ].filter(line => line !== '');
+  
+  panel.innerHTML = `
+    <div class="offline-summary-title">While you were away (${formatDuration(summary.awayFor)})</div>
+    ${lines.length > 0
+      ? lines.map(line => `<div class="offline-summary-line">${line}</div>`).join('')
+      : '<div class="offline-summary-line">All was quiet in the forest.</div>'}
+    <button onclick="closeOfflineSummary()">Back to the forest</button>
+  `;
+  panel.style.display = 'block';
+}
+
+function closeOfflineSummary(): void {
+  const panel = document.getElementById('offline-summary');
+  if (panel) panel.style.display = 'none';
+}
+
+// Let the player know when their trees have grown or wilted since the last update
+function announceTreeChanges(stageChanges?: TreeStageChange[], statusChanges?: TreeStatusChange[]): void {
+  const withered = statusChanges?.filter(change => change.toStatus === 'withered') ?? [];
+  const died = statusChanges?.filter(change => change.toStatus === 'dead') ?? [];
+  if (died.length > 0) {
+    showMessage(`${died.length} tree${died.length > 1 ? 's have' : ' has'} died. Clear them to free up space.`, 'error');
+    return;
+  }
+  if (withered.length > 0) {
+    showMessage(`${withered.length} tree${withered.length > 1 ? 's are' : ' is'} withering! Water soon.`, 'error');
+    return;
+  }
+
+  if (!stageChanges || stageChanges.length === 0) return;
+
+  const matured = stageChanges.filter(change => change.toStage >= 5);
+  if (matured.length > 0) {
+    showMessage(`${matured.length} tree${matured.length > 1 ? 's are' : ' is'} ready to harvest!`, 'success');
+  } else {
+    showMessage(`${stageChanges.length} tree${stageChanges.length > 1 ? 's' : ''} grew!`, 'info');
+  }
+}
+
 // Export the init function as default
 export default initGame;
 
@@ -425,6 +565,12 @@ function animate(): void {
   // Handle movement
   handleMovement();
   
+  // Let rain and snow fall
+  updateWeatherParticles();
+
+  // Glide other players towards where they last moved to
+  updateRemoteAvatars();
+  
   // Render minimap (throttled)
   if (movementThrottle % 30 === 0) {
     renderMinimap();
@@ -437,6 +583,90 @@ function animate(): void {
   }
 }
 
+// Weather rendering configuration
+const FOG_SCALE = 0.02; // Converts biome fog density into Three.js exponential fog
+const PARTICLE_COUNT = 1500;
+const PARTICLE_AREA = { width: 120, height: 60 }; // Box of falling particles kept around the player
+const RAIN = { color: 0xaaaadd, size: 0.3, speed: 1.2, drift: 0 };
+const SNOW = { color: 0xffffff, size: 0.6, speed: 0.15, drift: 0.05 };
+
+// The weather follows a fixed schedule for each region, so work it out for wherever the player has walked to
+function getLocalWeather(): Weather | null {
+  if (!gameState) return null;
+  const { x, z } = gameState.player.position;
+  return getWeatherAt(gameState.currentBiome.id, getBiomeTypeAt(x, z), Date.now());
+}
+
+// Set up fog, sky and falling particles for the current weather where the player is
+function applyWeather(): void {
+  if (!gameState || !scene) return;
+
+  const biome = gameState.currentBiome;
+  const { x, z } = gameState.player.position;
+  const region = getBiomeTypeAt(x, z);
+  const localWeather = getWeatherAt(biome.id, region, Date.now());
+  const key = `${localWeather.type}:${region}`;
+  if (key === currentWeatherKey) return;
+  const isChange = currentWeatherKey !== null;
+  currentWeatherKey = key;
+
+  const weather = getWeather(localWeather.type);
+  const { skyColor, fogColor, fogDensity } = biome.environment;
+  scene.background = new THREE.Color(skyColor);
+  scene.fog = new THREE.FogExp2(fogColor, fogDensity * weather.fogMultiplier * FOG_SCALE);
+
+  if (weatherParticles) {
+    scene.remove(weatherParticles);
+    weatherParticles.geometry.dispose();
+    (weatherParticles.material as THREE.Material).dispose();
+    weatherParticles = null;
+  }
+
+  if (weather.precipitation) {
+    const style = SNOWY_BIOMES.includes(region) ? SNOW : RAIN;
+    const positions = new Float32Array(PARTICLE_COUNT * 3);
+    for (let i = 0; i < PARTICLE_COUNT; i++) {
+      positions[i * 3] = (Math.random() - 0.5) * PARTICLE_AREA.width;
+      positions[i * 3 + 1] = Math.random() * PARTICLE_AREA.height;
+      positions[i * 3 + 2] = (Math.random() - 0.5) * PARTICLE_AREA.width;
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    weatherParticles = new THREE.Points(geometry, new THREE.PointsMaterial({
+      color: style.color,
+      size: style.size,
+      transparent: true,
+      opacity: 0.8
+    }));
+    weatherParticles.userData = style;
+    scene.add(weatherParticles);
+  }
+
+  if (isChange) {
+    showMessage(`${weather.icon} ${weather.name}: ${weather.description}`, 'info');
+  }
+}
+
+function updateWeatherParticles(): void {
+  if (!weatherParticles) return;
+
+  // Keep the particles centred on the player so they never run out
+  weatherParticles.position.x = playerAvatar?.position.x ?? 0;
+  weatherParticles.position.z = playerAvatar?.position.z ?? 0;
+
+  const { speed, drift } = weatherParticles.userData as typeof RAIN;
+  const positions = weatherParticles.geometry.attributes.position as THREE.BufferAttribute;
+  for (let i = 0; i < positions.count; i++) {
+    let y = positions.getY(i) - speed;
+    if (y < 0) y += PARTICLE_AREA.height;
+    positions.setY(i, y);
+    if (drift) {
+      positions.setX(i, positions.getX(i) + Math.sin(y + i) * drift);
+    }
+  }
+  positions.needsUpdate = true;
+}
+
 // Create UI elements dynamically
 function createUI(): void {
   const gameContainer = document.getElementById('game-container');
@@ -469,10 +699,7 @@ function createUI(): void {
         <span class="resource-icon">💰</span>
         <span id="coins">0</span>
       </div>
-      <div class="resource-item">
-        <span class="resource-icon">🌱</span>
-        <span id="seeds">0</span>
-      </div>
+      <div class="seed-inventory" id="seed-inventory"></div>
       <div class="resource-item">
         <span class="resource-icon">💧</span>
         <span id="water">0</span>
@@ -488,15 +715,49 @@ function createUI(): void {
         <span class="info-icon">⭐</span>
         <span id="level">1</span>
       </div>
+      <div class="xp-bar" title="Experience to next level">
+        <div class="xp-fill" id="xp-fill"></div>
+        <span class="xp-text" id="xp-text">0 XP</span>
+      </div>
+      <div class="info-item" title="Soil quality of the plot you're standing on">
+        <span class="info-icon">🪱</span>
+        <span id="soil">-</span>
+      </div>
+      <div class="info-item" id="season-info">
+        <span class="info-icon">🌸</span>
+        <span>Spring</span>
+      </div>
+      <div class="info-item" id="weather-info">
+        <span class="info-icon">☀️</span>
+        <span>Clear</span>
+      </div>
     </div>
     
     <div id="message-display" class="message" style="display: none;"></div>
     
+    <div id="level-up-celebration" class="level-up-celebration" style="display: none;"></div>
+    
+    <div id="tree-detail" class="tree-detail" style="display: none;"></div>
+    
+    <div id="offline-summary" class="offline-summary" style="display: none;"></div>
+    
     <div class="shop ui-toggleable">
       <h3>Shop</h3>
       <button onclick="buySeeds()">Buy Seeds (10 coins)</button>
       <button onclick="buyWater()">Buy Water (5 coins)</button>
       <button onclick="buyLand()">Buy Land (100 coins)</button>
+      <button onclick="fertilizeCurrentPlot()">Fertilize Plot (1 🧪)</button>
+      <button onclick="buyItem('remedy')">Buy Remedy (${getItem('remedy').price} coins)</button>
+    </div>
+    
+    <div class="inventory ui-toggleable">
+      <h3>Inventory</h3>
+      <div id="inventory-list"></div>
+    </div>
+    
+    <div class="crafting ui-toggleable">
+      <h3>Crafting</h3>
+      <div id="crafting-list"></div>
     </div>
     
     <div class="achievements ui-toggleable">
@@ -548,8 +809,10 @@ function createUI(): void {
         <li>Drag mouse to rotate camera (desktop)</li>
         <li>Use joysticks for movement and camera (mobile)</li>
         <li>Click on trees to water or harvest them</li>
-        <li>Plant new trees on your land</li>
+        <li>Water withered trees before they die, and click dead ones to clear them</li>
+        <li>Pick a seed type, then plant new trees on your land</li>
         <li>Buy more land to expand your forest</li>
+        <li>Fertilize tired soil to keep trees growing fast</li>
         <li>Press Tab to toggle UI</li>
         <li>Press F for fullscreen</li>
         <li>Chat with other players!</li>
@@ -875,46 +1138,21 @@ function initThreeJS(): void {
 
 // Terrain with mountains for massive world
 function createTerrain(): THREE.Mesh {
-  const size = 2000; // Match server world size
-  const segments = 200; // Higher detail for larger world
-  const geometry = new THREE.PlaneGeometry(size, size, segments, segments);
+  const segmentSize = 10; // Terrain detail, in world units per segment
+  const geometry = new THREE.PlaneGeometry(
+    WORLD_WIDTH,
+    WORLD_HEIGHT,
+    WORLD_WIDTH / segmentSize,
+    WORLD_HEIGHT / segmentSize
+  );
   
   // Get position attribute
   const positions = geometry.attributes.position;
   if (!positions) return new THREE.Mesh();
   
-  // Create much flatter terrain for better gameplay
+  // Shape the ground the same way the server does; the plane is laid flat, so its y runs along -z
   for (let i = 0; i < positions.count; i++) {
-    const x = positions.getX(i);
-    const z = positions.getY(i);
-    
-    // Very gentle terrain variations
-    let height = 0;
-    
-    // Very subtle rolling hills (much smaller scale)
-    height += Math.sin(x * 0.01) * Math.cos(z * 0.01) * 2; // Reduced from 15 to 2
-    height += Math.sin(x * 0.02) * Math.cos(z * 0.02) * 1.5; // Reduced from 10 to 1.5
-    
-    // Very small details
-    height += Math.sin(x * 0.05) * Math.cos(z * 0.05) * 0.5; // Reduced from 5 to 0.5
-    height += Math.sin(x * 0.1) * Math.cos(z * 0.1) * 0.3; // Reduced from 3 to 0.3
-    
-    // Tiny details
-    height += Math.sin(x * 0.2) * Math.cos(z * 0.2) * 0.1; // Reduced from 1 to 0.1
-    
-    // Very gentle mountain slopes at edges (much smaller)
-    const distFromCenter = Math.sqrt(x * x + z * z);
-    if (distFromCenter > 800) { // Moved mountains further out
-      const mountainHeight = (distFromCenter - 800) * 0.02; // Much smaller slope
-      height += mountainHeight;
-    }
-    
-    // Gentle central valley
-    if (Math.abs(x) < 300 && Math.abs(z) < 300) {
-      height -= 0.5; // Very shallow valley
-    }
-    
-    positions.setZ(i, height);
+    positions.setZ(i, getTerrainHeight(positions.getX(i), -positions.getY(i)));
   }
   
   geometry.computeVertexNormals();
@@ -955,18 +1193,18 @@ function addRocks(): void {
 async function fetchInitialGameState(): Promise<void> {
   try {
     console.log('Fetching initial game state...');
-    const response = await fetch('/api/init', {
-      method: 'GET'
-    });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    const result = await callApi(ROUTES.init);
+    if (!result.ok) {
+      throw new Error(result.error.message);
     }
     
-    const data: InitResponse = await response.json();
+    const data = result.data;
     console.log('Received game state:', data);
     gameState = data.gameState;
+    gameStateVersion = data.version;
     nearbyPlayers = data.nearbyPlayers;
+    nearbyInfections = data.nearbyInfections ?? [];
+    currentSeason = data.season;
     
     // Create player avatar
     createPlayerAvatar();
@@ -977,19 +1215,20 @@ async function fetchInitialGameState(): Promise<void> {
     renderNearbyPlayers();
     renderMinimap();
     
-    // Load chat messages
+    // Load chat messages; new ones arrive over realtime
     loadChatMessages();
     updateOnlineCount();
-    
-    // Set up chat update interval
-    chatUpdateInterval = setInterval(() => {
-      loadChatMessages();
-    }, 2000);
+    updateRealtimeSubscriptions();
     
     // Update UI
     updateUI();
     
     showMessage(`Welcome to the massive world, ${gameAuth?.username || 'Player'}!`, 'success');
+    if (data.offlineSummary) {
+      showOfflineSummary(data.offlineSummary);
+    } else {
+      announceTreeChanges(data.stageChanges, data.statusChanges);
+    }
     
   } catch (error) {
     console.error('Failed to fetch initial game state:', error);
@@ -1105,51 +1344,149 @@ function createUsernameLabel(username: string, position: THREE.Vector3): THREE.S
   return sprite;
 }
 
-// Render trees
+// Floating disease icon above an infected tree
+function createInfectionMarker(disease: InfectedTree['disease'], position: THREE.Vector3): THREE.Sprite {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) return new THREE.Sprite();
+  
+  canvas.width = 64;
+  canvas.height = 64;
+  
+  context.font = '48px Arial';
+  context.textAlign = 'center';
+  context.fillText(getDisease(disease).icon, canvas.width / 2, canvas.height / 2 + 16);
+  
+  const texture = new THREE.CanvasTexture(canvas);
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: texture }));
+  
+  sprite.position.set(position.x, position.y + 1.5, position.z);
+  sprite.scale.set(1.5, 1.5, 1);
+  
+  scene.add(sprite);
+  return sprite;
+}
+
+function formatTrait(value: number): string {
+  return `×${value.toFixed(2)}`;
+}
+
+function hasRemedy(): boolean {
+  return (gameState?.inventory.find(stack => stack.itemId === 'remedy')?.quantity ?? 0) > 0;
+}
+
+// Everything that can be done to a tree in its current state, as buttons for the detail panel
+function renderTreeActions(tree: Tree): string {
+  const actions: string[] = [];
+  if (tree.status !== 'dead') {
+    actions.push(`<button onclick="waterTree('${tree.id}')">💧 Water</button>`);
+  }
+  if (tree.status === 'alive' && tree.growthStage >= 5) {
+    actions.push(`<button onclick="harvestTree('${tree.id}')">🧺 Harvest</button>`);
+  }
+  if (tree.infection) {
+    actions.push(hasRemedy()
+      ? `<button onclick="treatTree('${tree.id}')">💊 Treat</button>`
+      : `<button disabled title="Buy or craft a remedy first">💊 Treat</button>`);
+  }
+  if (tree.status !== 'alive') {
+    actions.push(`<button onclick="clearTree('${tree.id}')">🪓 Clear</button>`);
+  }
+  return actions.join('');
+}
+
+// Detail panel for the last tree the player clicked, including its inherited traits
+function renderTreeDetail(): void {
+  const detailElement = document.getElementById('tree-detail');
+  if (!detailElement || !gameState) return;
+
+  const tree = gameState.trees.find(t => t.id === selectedTreeId);
+  if (!tree) {
+    selectedTreeId = null;
+    detailElement.style.display = 'none';
+    return;
+  }
+
+  const species = getSpecies(tree.type);
+  const variant = getColorVariant(tree.traits.colorVariant);
+  const infection = tree.infection ? getDisease(tree.infection.disease) : null;
+  detailElement.innerHTML = `
+    <button class="tree-detail-close" onclick="closeTreeDetail()">✕</button>
+    <div class="tree-detail-title">${species.icon} ${variant.name} ${species.name}</div>
+    <div>Stage ${tree.growthStage}/5 · ${Math.round(tree.health)}% health · ${tree.status}</div>
+    ${infection ? `<div class="tree-detail-infection">${infection.icon} ${infection.name}</div>` : ''}
+    <div class="tree-detail-traits">
+      <div>Growth speed <span>${formatTrait(tree.traits.growthSpeed)}</span></div>
+      <div>Hardiness <span>${formatTrait(tree.traits.hardiness)}</span></div>
+      <div>Yield <span>${formatTrait(tree.traits.yield)}</span></div>
+    </div>
+    <div class="tree-detail-actions">${renderTreeActions(tree)}</div>
+  `;
+  detailElement.style.display = 'block';
+}
+
+function closeTreeDetail(): void {
+  selectedTreeId = null;
+  renderTreeDetail();
+}
+
+// Render trees, ours and the neighbours' we have heard about
 function renderTrees(): void {
   if (!gameState || !scene) return;
   
   // Clear existing trees
   treeMeshes.forEach(mesh => scene.remove(mesh));
-  treeMeshes = [];
+  neighbourTreeMeshes.forEach(mesh => scene.remove(mesh));
+  infectionMarkers.forEach(marker => scene.remove(marker));
+  infectionMarkers = [];
   
-  gameState.trees.forEach((tree: any) => {
-    let geometry: THREE.BufferGeometry;
-    
-    switch (tree.type) {
-      case 'oak':
-        geometry = new THREE.ConeGeometry(0.5, tree.growthStage * 2, 8);
-        break;
-      case 'pine':
-        geometry = new THREE.ConeGeometry(0.3, tree.growthStage * 1.5, 6);
-        break;
-      case 'cherry':
-        geometry = new THREE.SphereGeometry(tree.growthStage * 0.8, 8, 6);
-        break;
-      default:
-        geometry = new THREE.ConeGeometry(0.4, tree.growthStage * 1.8, 8);
-    }
-    
-    const material = new THREE.MeshLambertMaterial({ 
-      color: tree.type === 'oak' ? 0x8B4513 : 
-             tree.type === 'pine' ? 0x228B22 : 
-             tree.type === 'cherry' ? 0xFF69B4 : 0xFFD700
-    });
-    
-    const mesh = new THREE.Mesh(geometry, material);
-    mesh.position.set(tree.x, tree.y, tree.z);
-    mesh.castShadow = true;
-    mesh.userData = { tree };
-    
-    scene.add(mesh);
-    treeMeshes.push(mesh);
+  treeMeshes = gameState.trees.map(addTreeMesh);
+  neighbourTreeMeshes = [...neighbourTrees.values()].map(addTreeMesh);
+}
+
+function addTreeMesh(tree: Tree): THREE.Mesh {
+  const species = getSpecies(tree.type);
+  const { shape, radius, sizePerStage, segments } = species.mesh;
+  const geometry: THREE.BufferGeometry = shape === 'sphere'
+    ? new THREE.SphereGeometry(tree.growthStage * sizePerStage, segments, 6)
+    : new THREE.ConeGeometry(radius, tree.growthStage * sizePerStage, segments);
+  
+  const material = new THREE.MeshLambertMaterial({ 
+    color: tree.status === 'dead' ? 0x4A4A4A : // Grey, lifeless
+           tree.status === 'withered' ? 0x8B7355 : // Dry brown
+           getColorVariant(tree.traits.colorVariant).color ?? getFoliageColor(tree.type, currentSeason.season),
+    emissive: tree.infection ? INFECTION_COLOR : 0x000000 // Sickly glow while diseased
   });
+  
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.set(tree.x, tree.y, tree.z);
+  mesh.castShadow = true;
+  
+  // Neglected trees droop, dead ones lean over
+  if (tree.status === 'withered') {
+    mesh.rotation.z = 0.2;
+  } else if (tree.status === 'dead') {
+    mesh.rotation.z = 0.6;
+  }
+  mesh.userData = { tree };
+  
+  scene.add(mesh);
+  
+  if (tree.infection) {
+    const height = tree.growthStage * sizePerStage;
+    infectionMarkers.push(createInfectionMarker(tree.infection.disease, new THREE.Vector3(tree.x, tree.y + height, tree.z)));
+  }
+  return mesh;
 }
 
 // Render land plots
 function renderLandPlots(): void {
   if (!gameState || !scene) return;
   
+  // Clear existing plot meshes
+  landPlotMeshes.forEach(mesh => scene.remove(mesh));
+  landPlotMeshes = [];
+  
   gameState.currentBiome.landPlots.forEach((plot: any) => {
     const geometry = new THREE.PlaneGeometry(10, 20);
     const material = new THREE.MeshLambertMaterial({ 
@@ -1163,6 +1500,7 @@ function renderLandPlots(): void {
     mesh.rotation.x = -Math.PI / 2;
     
     scene.add(mesh);
+    landPlotMeshes.push(mesh);
   });
 }
 
@@ -1170,30 +1508,136 @@ function renderLandPlots(): void {
 function renderNearbyPlayers(): void {
   if (!gameState || !scene) return;
   
-  // Clear existing player meshes
-  playerMeshes.forEach(mesh => scene.remove(mesh));
-  playerMeshes = [];
+  // Clear existing player meshes and username labels
+  [...playerMeshes.keys()].forEach(removeRemoteAvatar);
   
-  // Clear existing username labels
-  usernameLabels.forEach(label => scene.remove(label));
-  usernameLabels.clear();
+  nearbyPlayers.forEach(addRemoteAvatar);
+}
+
+function addRemoteAvatar(player: RemotePlayer): void {
+  if (!gameState || player.id === gameState.player.id) return; // Skip self
   
-  nearbyPlayers.forEach((player: any) => {
-    if (player.id === gameState!.player.id) return; // Skip self
-    
-    const geometry = new THREE.CylinderGeometry(0.5, 0.5, 2, 8);
-    const material = new THREE.MeshLambertMaterial({ color: 0x0000ff });
-    const mesh = new THREE.Mesh(geometry, material);
-    
-    mesh.position.set(player.position.x, player.position.y + 1, player.position.z);
-    mesh.castShadow = true;
-    
-    scene.add(mesh);
-    playerMeshes.push(mesh);
-    
-    // Create username label
-    const label = createUsernameLabel(player.username, mesh.position);
-    usernameLabels.set(player.id, label);
+  const geometry = new THREE.CylinderGeometry(0.5, 0.5, 2, 8);
+  const material = new THREE.MeshLambertMaterial({ color: 0x0000ff });
+  const mesh = new THREE.Mesh(geometry, material);
+  
+  mesh.position.set(player.position.x, player.position.y + 1, player.position.z);
+  mesh.castShadow = true;
+  
+  scene.add(mesh);
+  playerMeshes.set(player.id, mesh);
+  avatarTargets.set(player.id, mesh.position.clone());
+  
+  // Create username label
+  const label = createUsernameLabel(player.username, mesh.position);
+  usernameLabels.set(player.id, label);
+}
+
+function removeRemoteAvatar(playerId: string): void {
+  const mesh = playerMeshes.get(playerId);
+  if (mesh) scene.remove(mesh);
+  const label = usernameLabels.get(playerId);
+  if (label) scene.remove(label);
+  playerMeshes.delete(playerId);
+  avatarTargets.delete(playerId);
+  usernameLabels.delete(playerId);
+}
+
+function updateRemoteAvatars(): void {
+  playerMeshes.forEach((mesh, playerId) => {
+    const target = avatarTargets.get(playerId);
+    if (!target) return;
+    mesh.position.lerp(target, AVATAR_FOLLOW_RATE);
+    usernameLabels.get(playerId)?.position.set(mesh.position.x, mesh.position.y + 3, mesh.position.z);
+  });
+}
+
+// Listen to the biome's chat and the areas around the player, forgetting players and trees in areas no longer heard from
+function updateRealtimeSubscriptions(): void {
+  if (!gameState || !playerAvatar) return;
+  
+  const biomeId = gameState.currentBiome.id;
+  const { x, z } = playerAvatar.position;
+  const areaChannels = getAreaChannelsAround(biomeId, x, z);
+  
+  const outOfRange = nearbyPlayers.filter(player =>
+    !areaChannels.includes(getAreaChannel(biomeId, player.position.x, player.position.z))
+  );
+  if (outOfRange.length > 0) {
+    outOfRange.forEach(player => removeRemoteAvatar(player.id));
+    nearbyPlayers = nearbyPlayers.filter(player => !outOfRange.includes(player));
+    updateOnlineCount();
+  }
+  
+  const treesOutOfRange = [...neighbourTrees.values()].filter(tree =>
+    !areaChannels.includes(getAreaChannel(biomeId, tree.x, tree.z))
+  );
+  if (treesOutOfRange.length > 0) {
+    treesOutOfRange.forEach(tree => neighbourTrees.delete(tree.id));
+    renderTrees();
+  }
+  
+  subscribeToChannels([getChatChannel(biomeId), ...areaChannels], handleRealtimeMessage)
+    .catch(error => console.error('Failed to subscribe to realtime updates:', error));
+}
+
+function handleRealtimeMessage(message: RealtimeMessage): void {
+  if (!gameState) return;
+  
+  switch (message.type) {
+    case 'player_moved':
+      moveRemotePlayer(message.playerId, message.username, message.position);
+      break;
+    case 'chat_message':
+      addChatMessage(message.chatMessage);
+      break;
+    case 'plot_purchased':
+      // Our own purchases are already in the game state
+      if (!gameState.currentBiome.landPlots.some(plot => plot.id === message.landPlot.id)) {
+        gameState.currentBiome.landPlots.push(message.landPlot);
+        renderLandPlots();
+      }
+      break;
+    case 'trees_changed':
+      // Our own changes are already in the game state
+      if (message.ownerId !== gameState.player.id) {
+        message.trees.forEach(tree => neighbourTrees.set(tree.id, tree));
+        message.removedTreeIds.forEach(treeId => neighbourTrees.delete(treeId));
+        updateNeighbourInfections(message.trees, message.removedTreeIds);
+        renderTrees();
+      }
+      break;
+  }
+}
+
+// Glide a player's avatar to where they moved, adding them if they have just come into range
+function moveRemotePlayer(playerId: string, username: string, position: Player['position']): void {
+  if (!gameState || playerId === gameState.player.id) return;
+  
+  const known = nearbyPlayers.find(player => player.id === playerId);
+  if (known) {
+    known.position = position;
+  } else {
+    nearbyPlayers.push({ id: playerId, username, position });
+    updateOnlineCount();
+  }
+  
+  const target = avatarTargets.get(playerId);
+  if (target) {
+    target.set(position.x, position.y + 1, position.z);
+  } else {
+    addRemoteAvatar({ id: playerId, username, position });
+  }
+}
+
+// Keep the minimap's infected trees up to date as neighbours' trees change
+function updateNeighbourInfections(trees: Tree[], removedTreeIds: string[]): void {
+  const changed = new Set([...trees.map(tree => tree.id), ...removedTreeIds]);
+  nearbyInfections = nearbyInfections.filter(infected => !changed.has(infected.treeId));
+  trees.forEach(tree => {
+    if (tree.infection) {
+      nearbyInfections.push({ ...tree.infection, treeId: tree.id, ownerId: tree.ownerId, x: tree.x, z: tree.z });
+    }
   });
 }
 
@@ -1202,31 +1646,136 @@ function updateUI(): void {
   if (!gameState) return;
   
   const coinsElement = document.getElementById('coins');
-  const seedsElement = document.getElementById('seeds');
+  const seedInventoryElement = document.getElementById('seed-inventory');
   const waterElement = document.getElementById('water');
   const treeCountElement = document.getElementById('tree-count');
   const levelElement = document.getElementById('level');
+  const soilElement = document.getElementById('soil');
+  const xpFillElement = document.getElementById('xp-fill');
+  const xpTextElement = document.getElementById('xp-text');
   const achievementsElement = document.getElementById('achievements-list');
+  const seasonInfoElement = document.getElementById('season-info');
+  const weatherInfoElement = document.getElementById('weather-info');
+  const inventoryElement = document.getElementById('inventory-list');
+  const craftingElement = document.getElementById('crafting-list');
   const shopElement = document.querySelector('.shop');
   
   if (coinsElement) coinsElement.textContent = gameState.player.coins.toString();
-  if (seedsElement) seedsElement.textContent = gameState.resources.seeds.toString();
+  if (seedInventoryElement) {
+    const seeds = gameState.resources.seeds;
+    seedInventoryElement.innerHTML = TREE_TYPES
+      .map(type => {
+        const species = getSpecies(type);
+        const locked = gameState!.player.level < species.unlockLevel;
+        return `
+          <div class="resource-item seed-item ${type === selectedTreeType ? 'selected' : ''} ${locked ? 'locked' : ''}" onclick="selectTreeType('${type}')" title="${locked ? `Unlocks at level ${species.unlockLevel}` : `${species.name} seeds`}">
+            <span class="resource-icon">${locked ? '🔒' : species.icon}</span>
+            <span>${locked ? `Lv${species.unlockLevel}` : seeds[type] ?? 0}</span>
+          </div>
+        `;
+      }).join('');
+  }
   if (waterElement) waterElement.textContent = gameState.resources.water.toString();
+  // The calendar runs on regardless of the server, so move on once the season is over, keeping the server's season length
+  if (Date.now() >= currentSeason.endsAt) {
+    currentSeason = getSeasonAt(Date.now(), currentSeason.endsAt - currentSeason.startedAt);
+    renderTrees();
+  }
+  if (seasonInfoElement) {
+    const season = getSeason(currentSeason.season);
+    seasonInfoElement.title = currentSeason.season === 'winter' ? 'Trees stop growing in winter' : `${season.name} season`;
+    seasonInfoElement.innerHTML = `
+      <span class="info-icon">${season.icon}</span>
+      <span>${season.name}</span>
+    `;
+  }
+  const localWeather = getLocalWeather();
+  if (weatherInfoElement && localWeather) {
+    const weather = getWeather(localWeather.type);
+    const minutesLeft = Math.max(0, Math.ceil((localWeather.endsAt - Date.now()) / 60000));
+    weatherInfoElement.title = `${weather.description} (${minutesLeft} min left)`;
+    weatherInfoElement.innerHTML = `
+      <span class="info-icon">${weather.icon}</span>
+      <span>${weather.name}</span>
+    `;
+  }
+  applyWeather();
+  renderTreeDetail();
   if (treeCountElement) treeCountElement.textContent = gameState.trees.length.toString();
   if (levelElement) levelElement.textContent = gameState.player.level.toString();
+  if (xpFillElement) xpFillElement.style.width = `${Math.round(levelProgress(gameState.player.experience) * 100)}%`;
+  if (xpTextElement) {
+    const nextLevelXP = experienceForLevel(gameState.player.level + 1);
+    xpTextElement.textContent = `${gameState.player.experience} / ${nextLevelXP} XP`;
+  }
+  if (soilElement) {
+    const plot = getPlotAtPlayer();
+    soilElement.textContent = plot ? `${Math.round(plot.soilNutrients ?? 100)}%` : '-';
+  }
+  
+  // Update inventory
+  if (inventoryElement) {
+    inventoryElement.innerHTML = gameState.inventory.length === 0
+      ? '<div class="inventory-empty">Nothing here yet</div>'
+      : gameState.inventory
+        .map(stack => {
+          const item = getItem(stack.itemId);
+          return `
+            <div class="inventory-item" title="${item.description}">
+              <span class="inventory-icon">${item.icon}</span>
+              <span class="inventory-name">${item.name}</span>
+              <span class="inventory-quantity">×${stack.quantity}</span>
+            </div>
+          `;
+        }).join('');
+  }
+  
+  // Update crafting recipes
+  if (craftingElement) {
+    craftingElement.innerHTML = RECIPE_IDS
+      .map(recipeId => {
+        const recipe = getRecipe(recipeId);
+        const output = getItem(recipe.output.itemId);
+        const locked = gameState!.player.level < recipe.unlockLevel;
+        const craftable = !locked && recipe.ingredients.every(ingredient =>
+          (gameState!.inventory.find(stack => stack.itemId === ingredient.itemId)?.quantity ?? 0) >= ingredient.quantity
+        );
+        const ingredients = recipe.ingredients
+          .map(ingredient => `${getItem(ingredient.itemId).icon}${ingredient.quantity}`)
+          .join(' ');
+        return `
+          <div class="recipe ${craftable ? '' : 'unavailable'}" title="${output.description}">
+            <span class="inventory-icon">${output.icon}</span>
+            <span class="inventory-name">${recipe.name}${recipe.output.quantity > 1 ? ` ×${recipe.output.quantity}` : ''}</span>
+            <span class="recipe-ingredients">${locked ? `🔒 Lv${recipe.unlockLevel}` : ingredients}</span>
+            <button onclick="craftItem('${recipeId}')" ${craftable ? '' : 'disabled'}>Craft</button>
+          </div>
+        `;
+      }).join('');
+  }
   
   // Update achievements
   if (achievementsElement) {
-    achievementsElement.innerHTML = gameState.player.achievements
-      .map((achievement: any) => `
-        <div class="achievement">
-          <span class="achievement-icon">${achievement.icon}</span>
-          <div class="achievement-info">
-            <div class="achievement-name">${achievement.name}</div>
-            <div class="achievement-desc">${achievement.description}</div>
+    const progress = getAchievementProgress(gameState.player);
+    achievementsElement.innerHTML = ACHIEVEMENTS
+      .map((achievement, index) => {
+        const { current, threshold, percent, unlocked } = progress[index]!;
+        return `
+          <div class="achievement ${unlocked ? 'unlocked' : 'locked'}">
+            <span class="achievement-icon">${achievement.icon}</span>
+            <div class="achievement-info">
+              <div class="achievement-name">${achievement.name}</div>
+              <div class="achievement-desc">${achievement.description}</div>
+              ${unlocked ? '' : `
+                <div class="achievement-progress">
+                  <div class="achievement-progress-fill" style="width: ${percent}%"></div>
+                </div>
+                <div class="achievement-progress-text">${current} / ${threshold}</div>
+              `}
+            </div>
           </div>
-        </div>
-      `).join('');
+        `;
+      }).join('');
   }
   
   // Update shop
@@ -1235,7 +1784,10 @@ function updateUI(): void {
     const buyWaterBtn = shopElement.querySelector('button[onclick="buyWater()"]');
     const buyLandBtn = shopElement.querySelector('button[onclick="buyLand()"]');
     
-    if (buySeedsBtn) buySeedsBtn.textContent = `Buy Seeds (10 coins)`;
+    if (buySeedsBtn) {
+      const species = getSpecies(selectedTreeType);
+      buySeedsBtn.textContent = `Buy ${species.name} Seeds (${species.seedPrice} coins)`;
+    }
     if (buyWaterBtn) buyWaterBtn.textContent = `Buy Water (5 coins)`;
     if (buyLandBtn) buyLandBtn.textContent = `Buy Land (100 coins)`;
   }
@@ -1249,39 +1801,62 @@ function sendChatMessage(): void {
   const message = input.value.trim();
   input.value = '';
   
-  fetch('/api/send-chat-message', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ message })
-  }).catch(error => {
-    console.error('Failed to send chat message:', error);
-    showMessage('Failed to send message', 'error');
-  });
+  callApi(ROUTES.sendChatMessage, { message })
+    .then(result => {
+      if (!result.ok) {
+        showMessage(result.error.message, 'error');
+      } else if (result.data.chatMessage) {
+        addChatMessage(result.data.chatMessage);
+      }
+    })
+    .catch(error => {
+      console.error('Failed to send chat message:', error);
+      showMessage('Failed to send message', 'error');
+    });
 }
 
 function loadChatMessages(): void {
-  fetch('/api/chat-messages')
-    .then(response => response.json())
-    .then(data => {
-      chatMessages = data.messages;
+  callApi(ROUTES.chatMessages)
+    .then(result => {
+      if (!result.ok) throw new Error(result.error.message);
+      chatMessages = result.data.messages;
       renderChatMessages();
     })
     .catch(error => console.error('Failed to load chat messages:', error));
 }
 
+// Our own messages come back over realtime as well, so skip any already shown
+function addChatMessage(chatMessage: ChatMessage): void {
+  if (chatMessages.some(msg => msg.id === chatMessage.id)) return;
+  chatMessages = [...chatMessages, chatMessage].slice(-CHAT_HISTORY);
+  renderChatMessages();
+}
+
 function renderChatMessages(): void {
   const container = document.getElementById('chat-messages');
   if (!container) return;
   
-  container.innerHTML = chatMessages
-    .slice(-20) // Show last 20 messages
-    .map(msg => `
-      <div class="chat-message ${msg.playerId === gameState?.player.id ? 'player' : 'other'}">
-        <span class="username">${msg.username}:</span>
-        <span class="message-text">${msg.message}</span>
-        <span class="timestamp">${new Date(msg.timestamp).toLocaleTimeString()}</span>
-      </div>
-    `).join('');
+  // Built from text nodes rather than HTML, as every message is written by another player
+  const span = (className: string, text: string): HTMLSpanElement => {
+    const element = document.createElement('span');
+    element.className = className;
+    element.textContent = text;
+    return element;
+  };
+  container.replaceChildren(...chatMessages
+    .slice(-CHAT_HISTORY)
+    .map(msg => {
+      const element = document.createElement('div');
+      element.className = `chat-message ${msg.playerId === gameState?.player.id ? 'player' : 'other'}`;
+      element.append(
+        span('username', `${msg.username}:`),
+        ' ',
+        span('message-text', msg.message),
+        ' ',
+        span('timestamp', new Date(msg.timestamp).toLocaleTimeString())
+      );
+      return element;
+    }));
   
   container.scrollTop = container.scrollHeight;
 }
@@ -1294,24 +1869,63 @@ function updateOnlineCount(): void {
 }
 
 // Game action functions
+
+// Bring the local game state up to date with what an action changed, fetching it whole if it has fallen out of step
+function applyChanges(changes: GameStateDelta): void {
+  if (!gameState || changes.version <= gameStateVersion) return; // Responses can arrive out of order
+  if (changes.baseVersion !== gameStateVersion) {
+    void resyncGameState();
+    return;
+  }
+  gameState = applyGameStateDelta(gameState, changes);
+  gameStateVersion = changes.version;
+}
+
+function resyncGameState(): Promise<void> {
+  gameStateResync ??= callApi(ROUTES.gameState)
+    .then(result => {
+      if (!result.ok) throw new Error(result.error.message);
+      if (result.data.version < gameStateVersion) return;
+      gameState = result.data.gameState;
+      gameStateVersion = result.data.version;
+      renderTrees();
+      renderLandPlots();
+      updateUI();
+    })
+    .catch(error => console.error('Failed to resync game state:', error))
+    .finally(() => {
+      gameStateResync = null;
+    });
+  return gameStateResync;
+}
+
+// The server refuses to act on anything out of reach, so say so without asking it
+function checkWithinReach(x: number, z: number): boolean {
+  if (isWithinReach(playerAvatar.position, x, z)) return true;
+  showMessage('That is too far away, walk closer first!', 'error');
+  return false;
+}
+
+function checkTreeWithinReach(treeId: string): boolean {
+  const tree = gameState?.trees.find(t => t.id === treeId);
+  return !tree || checkWithinReach(tree.x, tree.z);
+}
+
 async function plantTree(x: number, z: number): Promise<void> {
-  if (!gameState) return;
+  if (!gameState || !checkWithinReach(x, z)) return;
   
   try {
-    const response = await fetch('/api/plant-tree', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ x, z })
-    });
-    
-    const data: PlantTreeResponse = await response.json();
-    if (data.success) {
-      gameState = data.gameState;
+    const result = await callApi(ROUTES.plantTree, { treeType: selectedTreeType, x, z });
+    if (result.ok) {
+      const data = result.data;
+      applyChanges(data.changes);
       renderTrees();
       updateUI();
       showMessage('Tree planted successfully!', 'success');
+      announceTreeChanges(data.stageChanges, data.statusChanges);
+      showLevelUp(data.levelUp);
     } else {
-      showMessage(data.message || 'Failed to plant tree', 'error');
+      showMessage(result.error.message, 'error');
     }
   } catch (error) {
     console.error('Failed to plant tree:', error);
@@ -1320,23 +1934,20 @@ async function plantTree(x: number, z: number): Promise<void> {
 }
 
 async function waterTree(treeId: string): Promise<void> {
-  if (!gameState) return;
+  if (!gameState || !checkTreeWithinReach(treeId)) return;
   
   try {
-    const response = await fetch('/api/water-tree', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ treeId })
-    });
-    
-    const data: WaterTreeResponse = await response.json();
-    if (data.success) {
-      gameState = data.gameState;
+    const result = await callApi(ROUTES.waterTree, { treeId });
+    if (result.ok) {
+      const data = result.data;
+      applyChanges(data.changes);
       renderTrees();
       updateUI();
       showMessage('Tree watered!', 'success');
+      announceTreeChanges(data.stageChanges, data.statusChanges);
+      showLevelUp(data.levelUp);
     } else {
-      showMessage(data.message || 'Failed to water tree', 'error');
+      showMessage(result.error.message, 'error');
     }
   } catch (error) {
     console.error('Failed to water tree:', error);
@@ -1345,23 +1956,28 @@ async function waterTree(treeId: string): Promise<void> {
 }
 
 async function harvestTree(treeId: string): Promise<void> {
-  if (!gameState) return;
+  if (!gameState || !checkTreeWithinReach(treeId)) return;
   
   try {
-    const response = await fetch('/api/harvest-tree', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ treeId })
-    });
-    
-    const data: HarvestTreeResponse = await response.json();
-    if (data.rewards) {
-      gameState = data.gameState;
+    const result = await callApi(ROUTES.harvestTree, { treeId });
+    if (result.ok) {
+      const data = result.data;
+      applyChanges(data.changes);
       renderTrees();
       updateUI();
-      showMessage(`Harvested tree! +${data.rewards.coins} coins`, 'success');
+      const seedName = getSpecies(data.rewards.seedType).name;
+      const rareVariants = (data.rewards.seedTraits ?? [])
+        .filter(traits => traits.colorVariant !== 'common')
+        .map(traits => getColorVariant(traits.colorVariant).name);
+      const rareNote = rareVariants.length > 0 ? ` (${rareVariants.join(', ')}!)` : '';
+      const products = (data.rewards.products ?? [])
+        .map(product => `, +${product.quantity} ${getItem(product.itemId).name}`)
+        .join('');
+      showMessage(`Harvested tree! +${data.rewards.coins} coins${products}, +${data.rewards.seeds} ${seedName} seeds${rareNote}`, 'success');
+      announceTreeChanges(data.stageChanges, data.statusChanges);
+      showLevelUp(data.levelUp);
     } else {
-      showMessage('Failed to harvest tree', 'error');
+      showMessage(result.error.message, 'error');
     }
   } catch (error) {
     console.error('Failed to harvest tree:', error);
@@ -1369,22 +1985,135 @@ async function harvestTree(treeId: string): Promise<void> {
   }
 }
 
+async function clearTree(treeId: string): Promise<void> {
+  if (!gameState) return;
+  
+  try {
+    const result = await callApi(ROUTES.clearTree, { treeId });
+    if (result.ok) {
+      const data = result.data;
+      applyChanges(data.changes);
+      renderTrees();
+      updateUI();
+      showMessage(`Cleared tree! +${data.rewards.fertilizer} fertilizer`, 'success');
+    } else {
+      showMessage(result.error.message, 'error');
+    }
+  } catch (error) {
+    console.error('Failed to clear tree:', error);
+    showMessage('Failed to clear tree', 'error');
+  }
+}
+
+async function treatTree(treeId: string): Promise<void> {
+  if (!gameState) return;
+  
+  try {
+    const result = await callApi(ROUTES.treatTree, { treeId });
+    if (result.ok) {
+      const data = result.data;
+      applyChanges(data.changes);
+      renderTrees();
+      updateUI();
+      showMessage(data.message, 'success');
+      announceTreeChanges(data.stageChanges, data.statusChanges);
+      showLevelUp(data.levelUp);
+    } else {
+      showMessage(result.error.message, 'error');
+    }
+  } catch (error) {
+    console.error('Failed to treat tree:', error);
+    showMessage('Failed to treat tree', 'error');
+  }
+}
+
+async function buyItem(itemId: ItemId): Promise<void> {
+  if (!gameState) return;
+  
+  try {
+    const result = await callApi(ROUTES.buyItem, { itemId, quantity: 1 });
+    if (result.ok) {
+      const data = result.data;
+      applyChanges(data.changes);
+      updateUI();
+      showMessage(data.message, 'success');
+    } else {
+      showMessage(result.error.message, 'error');
+    }
+  } catch (error) {
+    console.error('Failed to buy item:', error);
+    showMessage('Failed to buy item', 'error');
+  }
+}
+
+async function craftItem(recipeId: RecipeId): Promise<void> {
+  if (!gameState) return;
+  
+  try {
+    const result = await callApi(ROUTES.craft, { recipeId, quantity: 1 });
+    if (result.ok) {
+      const data = result.data;
+      applyChanges(data.changes);
+      updateUI();
+      showMessage(data.message, 'success');
+      showLevelUp(data.levelUp);
+    } else {
+      showMessage(result.error.message, 'error');
+    }
+  } catch (error) {
+    console.error('Failed to craft:', error);
+    showMessage('Failed to craft', 'error');
+  }
+}
+
+// The land plot under the player's avatar, if any (plots are 10x20 centered on their x/z)
+function getPlotAtPlayer(): LandPlot | undefined {
+  if (!gameState || !playerAvatar) return undefined;
+  
+  const { x, z } = playerAvatar.position;
+  return gameState.currentBiome.landPlots.find(plot =>
+    Math.abs(plot.x - x) <= 5 && Math.abs(plot.z - z) <= 10
+  );
+}
+
+async function fertilizeCurrentPlot(): Promise<void> {
+  if (!gameState) return;
+  
+  const plot = getPlotAtPlayer();
+  if (!plot || plot.ownerId !== gameState.player.id) {
+    showMessage('Stand on your own land to fertilize it!', 'error');
+    return;
+  }
+  
+  try {
+    const result = await callApi(ROUTES.fertilize, { plotId: plot.id });
+    if (result.ok) {
+      const data = result.data;
+      applyChanges(data.changes);
+      updateUI();
+      showMessage(data.message, 'success');
+      showLevelUp(data.levelUp);
+    } else {
+      showMessage(result.error.message, 'error');
+    }
+  } catch (error) {
+    console.error('Failed to fertilize land:', error);
+    showMessage('Failed to fertilize land', 'error');
+  }
+}
+
 async function buySeeds(): Promise<void> {
   if (!gameState) return;
   
   try {
-    const response = await fetch('/api/buy-seeds', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' }
-    });
-    
-    const data: BuySeedsResponse = await response.json();
-    if (data.success) {
-      gameState = data.gameState;
+    const result = await callApi(ROUTES.buySeeds, { treeType: selectedTreeType, quantity: 1 });
+    if (result.ok) {
+      const data = result.data;
+      applyChanges(data.changes);
       updateUI();
       showMessage('Seeds purchased!', 'success');
     } else {
-      showMessage(data.message || 'Failed to buy seeds', 'error');
+      showMessage(result.error.message, 'error');
     }
   } catch (error) {
     console.error('Failed to buy seeds:', error);
@@ -1396,18 +2125,13 @@ async function buyWater(): Promise<void> {
   if (!gameState) return;
   
   try {
-    const response = await fetch('/api/buy-water', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' }
-    });
-    
-    const data: BuySeedsResponse = await response.json(); // Use same type as buy seeds
-    if (data.success) {
-      gameState = data.gameState;
+    const result = await callApi(ROUTES.buyWater, { quantity: 1 });
+    if (result.ok) {
+      applyChanges(result.data.changes);
       updateUI();
       showMessage('Water purchased!', 'success');
     } else {
-      showMessage(data.message || 'Failed to buy water', 'error');
+      showMessage(result.error.message, 'error');
     }
   } catch (error) {
     console.error('Failed to buy water:', error);
@@ -1415,48 +2139,26 @@ async function buyWater(): Promise<void> {
   }
 }
 
+// Buy the plot the player is standing on
 async function buyLand(): Promise<void> {
-  if (!gameState) return;
+  if (!gameState || !playerAvatar) return;
   
-  try {
-    const response = await fetch('/api/buy-land', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' }
-    });
-    
-    const data: BuyLandResponse = await response.json();
-    if (data.success) {
-      gameState = data.gameState;
-      renderLandPlots();
-      updateUI();
-      showMessage('Land purchased!', 'success');
-    } else {
-      showMessage(data.message || 'Failed to buy land', 'error');
-    }
-  } catch (error) {
-    console.error('Failed to buy land:', error);
-    showMessage('Failed to buy land', 'error');
-  }
+  await buyLandAtPosition(playerAvatar.position.x, playerAvatar.position.z);
 }
 
 async function buyLandAtPosition(x: number, z: number): Promise<void> {
   if (!gameState) return;
   
   try {
-    const response = await fetch('/api/buy-land', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ x, z })
-    });
-    
-    const data: BuyLandResponse = await response.json();
-    if (data.success) {
-      gameState = data.gameState;
+    const result = await callApi(ROUTES.buyLand, { x, z });
+    if (result.ok) {
+      const data = result.data;
+      applyChanges(data.changes);
       renderLandPlots();
       updateUI();
       showMessage('Land purchased!', 'success');
     } else {
-      showMessage(data.message || 'Failed to buy land', 'error');
+      showMessage(result.error.message, 'error');
     }
   } catch (error) {
     console.error('Failed to buy land:', error);
@@ -1468,17 +2170,23 @@ async function movePlayer(x: number, y: number, z: number): Promise<void> {
   if (!gameState) return;
   
   try {
-    const response = await fetch('/api/move-player', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ x, y, z })
-    });
-    
-    const data: MovePlayerResponse = await response.json();
-    if (data.gameState) {
-      gameState = data.gameState;
-      renderNearbyPlayers();
-      updateOnlineCount();
+    const result = await callApi(ROUTES.movePlayer, { x, y, z });
+    if (result.ok) {
+      const data = result.data;
+      applyChanges(data.changes);
+      if (data.correction) {
+        // The server refused the move: go back to where it has the player
+        console.warn(`Move refused (${data.correction.reason}), snapping back`);
+        placePlayerAvatar(data.correction.position.x, data.correction.position.z);
+        positionUnsent = false;
+      }
+      nearbyInfections = data.nearbyInfections ?? [];
+      updateRealtimeSubscriptions();
+      updateUI(); // Soil readout follows the plot under the player
+      if (data.stageChanges?.length || data.statusChanges?.length) {
+        renderTrees();
+        announceTreeChanges(data.stageChanges, data.statusChanges);
+      }
     }
   } catch (error) {
     console.error('Failed to move player:', error);
@@ -1503,10 +2211,17 @@ const mouse = new THREE.Vector2();
     const tree = clickedMesh?.userData?.tree;
     
     if (tree) {
-      if (tree.growthStage >= 3) {
-        harvestTree(tree.id);
+      selectedTreeId = tree.id;
+      renderTreeDetail();
+      // The obvious thing to do happens straight away; the detail panel has buttons for the rest
+      if (tree.status === 'dead') {
+        void clearTree(tree.id);
+      } else if (tree.infection && hasRemedy()) {
+        void treatTree(tree.id); // Cure it before it spreads
+      } else if (tree.status === 'alive' && tree.growthStage >= 5) { // Only fully grown trees can be harvested
+        void harvestTree(tree.id);
       } else {
-        waterTree(tree.id);
+        void waterTree(tree.id); // Also revives withered trees
       }
     }
   }
@@ -1532,15 +2247,27 @@ function handleCanvasClick(event: MouseEvent): void {
     const groundIntersects = raycaster.intersectObject(scene.getObjectByName('terrain') || new THREE.Object3D());
     if (groundIntersects.length > 0) {
       const point = groundIntersects[0]?.point;
-      if (point && gameState.resources.seeds > 0) {
+      if (point && gameState.resources.seeds[selectedTreeType] > 0) {
         plantTree(point.x, point.z);
       } else {
-        showMessage('You need seeds to plant trees!', 'error');
+        showMessage(`You need ${getSpecies(selectedTreeType).name} seeds to plant that tree!`, 'error');
       }
     }
   }
 }
 
+// Choose which species to plant and buy
+function selectTreeType(type: TreeType): void {
+  const species = getSpecies(type);
+  if (gameState && gameState.player.level < species.unlockLevel) {
+    showMessage(`${species.name} trees unlock at level ${species.unlockLevel}`, 'info');
+    return;
+  }
+  
+  selectedTreeType = type;
+  updateUI();
+}
+
 // Fullscreen toggle
 function toggleFullscreen(): void {
   if (!document.fullscreenElement) {
@@ -1554,13 +2281,25 @@ function toggleFullscreen(): void {
 }
 
 // Make functions globally available for HTML onclick handlers
-(window as any).buySeeds = buySeeds;
-(window as any).buyWater = buyWater;
-(window as any).buyLand = buyLand;
-(window as any).buyLandAtPosition = buyLandAtPosition;
-(window as any).toggleUI = toggleUI;
-(window as any).toggleFullscreen = toggleFullscreen;
-(window as any).sendChatMessage = sendChatMessage;
+Object.assign(window, {
+  buySeeds,
+  buyWater,
+  buyLand,
+  buyLandAtPosition,
+  toggleUI,
+  toggleFullscreen,
+  sendChatMessage,
+  selectTreeType,
+  fertilizeCurrentPlot,
+  buyItem,
+  closeTreeDetail,
+  waterTree,
+  harvestTree,
+  treatTree,
+  clearTree,
+  craftItem,
+  closeOfflineSummary
+});
 
 // Login screen functionality
 function showLoginScreen(): void {
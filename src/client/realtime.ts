@@ -0,0 +1,21 @@
+import { connectRealtime, disconnectRealtime } from '@devvit/web/client';
+import type { RealtimeMessage } from '../shared/types/api';
+
+const subscribedChannels = new Set<string>();
+
+// Listen to exactly these channels, leaving the ones no longer wanted and joining the new ones
+export async function subscribeToChannels(
+  channels: string[],
+  onMessage: (message: RealtimeMessage) => void
+): Promise<void> {
+  const wanted = new Set(channels);
+  const leaving = [...subscribedChannels].filter(channel => !wanted.has(channel));
+  const joining = [...wanted].filter(channel => !subscribedChannels.has(channel));
+  leaving.forEach(channel => subscribedChannels.delete(channel));
+  joining.forEach(channel => subscribedChannels.add(channel));
+
+  await Promise.all([
+    ...leaving.map(channel => disconnectRealtime(channel)),
+    ...joining.map(channel => connectRealtime<RealtimeMessage>({ channel, onMessage }))
+  ]);
+}
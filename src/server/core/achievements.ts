@@ -0,0 +1,54 @@
+import { Achievement, BiomeType, ColorVariant, Player, TreeType } from '../../shared/types/api';
+import { ACHIEVEMENTS, getMetricValue } from '../../shared/data/achievements';
+import { getVarietyId } from '../../shared/data/genetics';
+
+type CounterStat = 'treesPlanted' | 'treesHarvested' | 'coinsEarned';
+
+export function recordStat(player: Player, stat: CounterStat, amount: number = 1): void {
+  player.stats[stat] += amount;
+}
+
+export function recordPlayersMet(player: Player, others: Player[]): void {
+  const { stats } = player;
+  for (const other of others) {
+    if (other.id !== player.id && !stats.playersMet.includes(other.id)) {
+      stats.playersMet.push(other.id);
+    }
+  }
+}
+
+export function recordVariety(player: Player, type: TreeType, variant: ColorVariant): void {
+  const { stats } = player;
+  const varietyId = getVarietyId(type, variant);
+  if (!stats.varietiesDiscovered.includes(varietyId)) {
+    stats.varietiesDiscovered.push(varietyId);
+  }
+}
+
+export function recordBiomeVisit(player: Player, biomeType: BiomeType): void {
+  const { stats } = player;
+  if (!stats.biomesVisited.includes(biomeType)) {
+    stats.biomesVisited.push(biomeType);
+  }
+}
+
+// Unlock every achievement whose threshold the player now meets, returning only the new ones
+export function unlockAchievements(player: Player, now: number = Date.now()): Achievement[] {
+  const newAchievements: Achievement[] = [];
+  for (const definition of ACHIEVEMENTS) {
+    if (player.achievements.some(a => a.id === definition.id)) continue;
+    if (getMetricValue(player, definition.metric) < definition.threshold) continue;
+
+    newAchievements.push({
+      id: definition.id,
+      name: definition.name,
+      description: definition.description,
+      icon: definition.icon,
+      category: definition.category,
+      unlockedAt: now
+    });
+  }
+
+  player.achievements.push(...newAchievements);
+  return newAchievements;
+}
@@ -0,0 +1,39 @@
+import type { NextFunction, Request, Response } from 'express';
+import { reddit } from '@devvit/web/server';
+import { sendError } from './handlers';
+
+// Local playtests without a Reddit session act as this user, and only when it is set explicitly
+const DEV_PLAYER = process.env.DEV_PLAYER;
+if (DEV_PLAYER) {
+  console.log(`Requests without a Reddit user will play as dev player ${DEV_PLAYER}`);
+}
+
+// Who the request is from, taken from the Devvit context rather than anything the client sends
+async function getCurrentPlayerId(): Promise<string | undefined> {
+  const username = await reddit.getCurrentUsername();
+  return username || DEV_PLAYER; // Players are keyed by username
+}
+
+// Attach the signed-in player to the request, refusing anonymous requests and ones claiming to be someone else
+export async function authenticate(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const playerId = await getCurrentPlayerId();
+    if (!playerId) {
+      sendError(res, 'unauthenticated', 'You need to be logged in to Reddit to play');
+      return;
+    }
+
+    const claimed: unknown = req.body?.playerId ?? req.query.playerId;
+    if (claimed !== undefined && claimed !== playerId) {
+      console.warn(`Player ${playerId} tried to act as ${String(claimed)}`);
+      sendError(res, 'forbidden', 'You can only act as yourself');
+      return;
+    }
+
+    res.locals.playerId = playerId;
+    next();
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    sendError(res, 'internal', 'Failed to identify player');
+  }
+}
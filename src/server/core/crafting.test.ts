@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { Inventory } from '../../shared/types/api';
+import { craft } from './crafting';
+
+describe('craft', () => {
+  it('swaps the ingredients for the output', () => {
+    const inventory: Inventory = [{ itemId: 'wood', quantity: 5 }];
+
+    expect(craft(inventory, 'fence')).toEqual({ success: true });
+    expect(inventory).toEqual([{ itemId: 'wood', quantity: 1 }, { itemId: 'fence', quantity: 1 }]);
+  });
+
+  it('leaves the inventory untouched when an ingredient is short', () => {
+    // Enough wood for the lantern but one resin short
+    const inventory: Inventory = [{ itemId: 'wood', quantity: 1 }, { itemId: 'resin', quantity: 2 }];
+
+    expect(craft(inventory, 'lantern')).toEqual({ success: false, message: 'Not enough Pine Resin!' });
+    expect(inventory).toEqual([{ itemId: 'wood', quantity: 1 }, { itemId: 'resin', quantity: 2 }]);
+  });
+});
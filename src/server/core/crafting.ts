@@ -0,0 +1,12 @@
+import { Inventory } from '../../shared/types/api';
+import { getRecipe, RecipeId } from '../../shared/data/recipes';
+import { applyItemChanges, InventoryResult } from './inventory';
+
+// Swap a recipe's ingredients for its output, all at once or not at all
+export function craft(inventory: Inventory, recipeId: RecipeId, times: number = 1): InventoryResult {
+  const recipe = getRecipe(recipeId);
+  return applyItemChanges(inventory, [
+    ...recipe.ingredients.map(ingredient => ({ itemId: ingredient.itemId, quantity: -ingredient.quantity * times })),
+    { itemId: recipe.output.itemId, quantity: recipe.output.quantity * times }
+  ]);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, LandPlot } from '../../shared/types/api';
+import { createSeedInventory } from '../../shared/data/species';
+import { diffGameState, snapshotGameState } from './delta';
+import { migrateRecord, StoredBiome } from './migrations';
+import { readFixture } from './testing/fixtures';
+
+const VERSIONS = { baseVersion: 1, version: 2 };
+
+function createGameState(): GameState {
+  const biomeJson = readFixture('biome-v0.json');
+  const { landPlots } = JSON.parse(biomeJson) as { landPlots: unknown[] };
+  // The legacy biome still has its plots and players inline, as storage splits them out after migrating
+  const { landPlots: _landPlots, players: _players, ...biome } = migrateRecord('biome', biomeJson).record as StoredBiome & {
+    landPlots?: unknown;
+    players?: unknown;
+  };
+  return {
+    player: migrateRecord('player', readFixture('player-v0.json')).record,
+    currentBiome: {
+      ...biome,
+      landPlots: landPlots.map(plot => migrateRecord('landPlot', JSON.stringify(plot)).record)
+    },
+    trees: (JSON.parse(readFixture('trees-v0.json')) as unknown[]).map(
+      tree => migrateRecord('tree', JSON.stringify(tree)).record
+    ),
+    resources: { seeds: createSeedInventory({ oak: 3 }), seedTraits: {}, water: 10 },
+    inventory: [],
+    lastPlayed: 1700000500000
+  };
+}
+
+function getPlot(gameState: GameState, index: number): LandPlot {
+  const plot = gameState.currentBiome.landPlots[index];
+  if (!plot) throw new Error(`No plot ${index} in the fixture`);
+  return plot;
+}
+
+describe('diffGameState', () => {
+  it('sends nothing but the versions when nothing changed', () => {
+    const gameState = createGameState();
+    const snapshot = snapshotGameState(gameState);
+
+    expect(diffGameState(snapshot, gameState, VERSIONS)).toEqual(VERSIONS);
+  });
+
+  it('leaves out trees and plots that only moved on with the simulation', () => {
+    const gameState = createGameState();
+    const snapshot = snapshotGameState(gameState);
+    for (const tree of gameState.trees) {
+      tree.lastSimulatedAt += 60000;
+      tree.growthProgress += 0.01;
+      tree.health -= 0.2;
+    }
+    getPlot(gameState, 0).soilNutrients -= 0.3;
+
+    expect(diffGameState(snapshot, gameState, VERSIONS)).toEqual(VERSIONS);
+  });
+
+  it('sends trees and plots once a change shows', () => {
+    const gameState = createGameState();
+    const snapshot = snapshotGameState(gameState);
+    const [grown, hurt] = gameState.trees;
+    if (!grown || !hurt) throw new Error('Expected two trees in the fixture');
+    grown.growthProgress = grown.growthStage + 1;
+    grown.growthStage += 1;
+    hurt.health -= 5;
+    getPlot(gameState, 1).soilNutrients -= 2;
+
+    const delta = diffGameState(snapshot, gameState, VERSIONS);
+    expect(delta.trees).toEqual([grown, hurt]);
+    expect(delta.landPlots).toEqual([getPlot(gameState, 1)]);
+  });
+
+  it('lists removed trees by ID', () => {
+    const gameState = createGameState();
+    const snapshot = snapshotGameState(gameState);
+    const removed = gameState.trees.shift();
+
+    expect(diffGameState(snapshot, gameState, VERSIONS).removedTreeIds).toEqual([removed?.id]);
+  });
+});
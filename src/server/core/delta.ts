@@ -0,0 +1,92 @@
+import { GameState, GameStateDelta, LandPlot, Tree } from '../../shared/types/api';
+
+// A game state as it was loaded, each entity serialized so that changes can be spotted by comparing strings
+export type GameStateSnapshot = {
+  player: string;
+  trees: Map<string, string>;
+  landPlots: Map<string, string>;
+  resources: string;
+  inventory: string;
+  weather: string;
+  lastPlayed: number;
+};
+
+export function snapshotGameState(gameState: GameState): GameStateSnapshot {
+  return {
+    player: JSON.stringify(gameState.player),
+    trees: new Map(gameState.trees.map(tree => [tree.id, JSON.stringify(tree)])),
+    landPlots: new Map(gameState.currentBiome.landPlots.map(plot => [plot.id, JSON.stringify(plot)])),
+    resources: JSON.stringify(gameState.resources),
+    inventory: JSON.stringify(gameState.inventory),
+    weather: JSON.stringify(gameState.currentBiome.weather),
+    lastPlayed: gameState.lastPlayed
+  };
+}
+
+// Simulation moves every tree and plot on a little with each request. Leave out what the client never shows and
+// round what it shows rounded, so that they are only sent once the change is visible.
+function treeState(tree: Tree): string {
+  const { growthProgress: _growthProgress, lastSimulatedAt: _lastSimulatedAt, health, ...rest } = tree;
+  return JSON.stringify({ ...rest, health: Math.round(health) });
+}
+
+function plotState(plot: LandPlot): string {
+  return JSON.stringify({ ...plot, soilNutrients: Math.round(plot.soilNutrients) });
+}
+
+function changedSince<T>(before: string | undefined, entity: T, state: (entity: T) => string): boolean {
+  return !before || state(JSON.parse(before) as T) !== state(entity);
+}
+
+// Everything that differs from the snapshot, leaving out whatever is unchanged
+export function diffGameState(
+  snapshot: GameStateSnapshot,
+  gameState: GameState,
+  versions: Pick<GameStateDelta, 'baseVersion' | 'version'>
+): GameStateDelta {
+  const delta: GameStateDelta = { ...versions };
+
+  if (JSON.stringify(gameState.player) !== snapshot.player) {
+    delta.player = gameState.player;
+  }
+
+  const trees = gameState.trees.filter(tree => changedSince(snapshot.trees.get(tree.id), tree, treeState));
+  if (trees.length > 0) delta.trees = trees;
+  const treeIds = new Set(gameState.trees.map(tree => tree.id));
+  const removedTreeIds = [...snapshot.trees.keys()].filter(treeId => !treeIds.has(treeId));
+  if (removedTreeIds.length > 0) delta.removedTreeIds = removedTreeIds;
+
+  const landPlots = gameState.currentBiome.landPlots.filter(plot =>
+    changedSince(snapshot.landPlots.get(plot.id), plot, plotState)
+  );
+  if (landPlots.length > 0) delta.landPlots = landPlots;
+
+  if (JSON.stringify(gameState.resources) !== snapshot.resources) {
+    delta.resources = gameState.resources;
+  }
+  if (JSON.stringify(gameState.inventory) !== snapshot.inventory) {
+    delta.inventory = gameState.inventory;
+  }
+  if (JSON.stringify(gameState.currentBiome.weather) !== snapshot.weather) {
+    delta.weather = gameState.currentBiome.weather;
+  }
+  if (gameState.lastPlayed !== snapshot.lastPlayed) {
+    delta.lastPlayed = gameState.lastPlayed;
+  }
+  return delta;
+}
+
+// What other players can see of a tree; simulation ticks change far more than this
+function treeAppearance(tree: Tree): string {
+  return JSON.stringify([tree.type, tree.x, tree.z, tree.growthStage, tree.status, tree.infection ?? null, tree.traits.colorVariant]);
+}
+
+// Trees planted, removed or changed in a way that shows, as they were before removal
+export function diffTreeAppearances(snapshot: GameStateSnapshot, gameState: GameState): { trees: Tree[]; removedTrees: Tree[] } {
+  const trees = gameState.trees.filter(tree => changedSince(snapshot.trees.get(tree.id), tree, treeAppearance));
+  const treeIds = new Set(gameState.trees.map(tree => tree.id));
+  const removedTrees = [...snapshot.trees]
+    .filter(([treeId]) => !treeIds.has(treeId))
+    .map(([, json]) => JSON.parse(json) as Tree);
+  return { trees, removedTrees };
+}
@@ -0,0 +1,62 @@
+import { InfectedTree, Tree } from '../../shared/types/api';
+import { DISEASE_IDS, getDisease, OUTBREAK_CHANCE_PER_HOUR } from '../../shared/data/diseases';
+
+const HOUR = 60 * 60 * 1000;
+
+// Chance that something happening at `ratePerHour` happens at least once within `duration`
+function chanceWithin(ratePerHour: number, duration: number): number {
+  return 1 - Math.exp(-ratePerHour * duration / HOUR);
+}
+
+// Infected trees that can pass it on; dead trees have nothing left to spread
+export function getInfectedTrees(trees: Tree[]): InfectedTree[] {
+  return trees.flatMap(tree => tree.infection && tree.status !== 'dead'
+    ? [{ ...tree.infection, treeId: tree.id, ownerId: tree.ownerId, x: tree.x, z: tree.z }]
+    : []);
+}
+
+// Roll for a healthy tree catching something over [from, to), either from a nearby tree or out of nowhere
+export function catchInfection(tree: Tree, from: number, to: number, sources: InfectedTree[]): boolean {
+  if (tree.infection || tree.status !== 'alive' || to <= from) return false;
+
+  for (const source of sources) {
+    if (source.treeId === tree.id) continue;
+
+    const disease = getDisease(source.disease);
+    const distance = Math.hypot(source.x - tree.x, source.z - tree.z);
+    const exposure = to - Math.max(from, source.infectedAt);
+    if (distance > disease.spreadRadius || exposure <= 0) continue;
+
+    // The closer the infected tree, the more likely it jumps across
+    const rate = disease.spreadChancePerHour * (1 - distance / disease.spreadRadius);
+    if (Math.random() < chanceWithin(rate, exposure)) {
+      tree.infection = { disease: source.disease, infectedAt: to };
+      return true;
+    }
+  }
+
+  if (Math.random() < chanceWithin(OUTBREAK_CHANCE_PER_HOUR, to - from)) {
+    const disease = DISEASE_IDS[Math.floor(Math.random() * DISEASE_IDS.length)]!;
+    tree.infection = { disease, infectedAt: to };
+    return true;
+  }
+
+  return false;
+}
+
+// Health an infection takes from a tree over [from, to)
+export function diseaseDamage(tree: Tree, from: number, to: number): number {
+  if (!tree.infection) return 0;
+  const duration = Math.max(0, to - Math.max(from, tree.infection.infectedAt));
+  return getDisease(tree.infection.disease).healthLossPerHour * duration / HOUR / tree.traits.hardiness;
+}
+
+export function diseaseYieldMultiplier(tree: Tree): number {
+  return tree.infection ? getDisease(tree.infection.disease).yieldMultiplier : 1;
+}
+
+export function cureTree(tree: Tree): boolean {
+  if (!tree.infection) return false;
+  delete tree.infection;
+  return true;
+}
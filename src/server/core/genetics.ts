@@ -0,0 +1,78 @@
+import { GameState, Tree, TreeTraits, TreeType } from '../../shared/types/api';
+import { COLOR_VARIANT_IDS, createBaseTraits, getColorVariant, TRAIT_RANGE } from '../../shared/data/genetics';
+import { MAX_GROWTH_STAGE } from './simulation';
+
+// Breeding configuration
+const MUTATION_SIZE = 0.1; // Most a numeric trait can drift in one generation
+const COLOR_MUTATION_CHANCE = 0.05; // Chance a seed sprouts a new colour variant
+const POLLINATION_RADIUS = 12; // How far mature trees can cross-pollinate
+
+function mutate(value: number): number {
+  const drifted = value + (Math.random() * 2 - 1) * MUTATION_SIZE;
+  return Math.round(Math.min(TRAIT_RANGE.max, Math.max(TRAIT_RANGE.min, drifted)) * 100) / 100;
+}
+
+function mutateColor(traits: TreeTraits): TreeTraits['colorVariant'] {
+  if (Math.random() >= COLOR_MUTATION_CHANCE) return traits.colorVariant;
+
+  const total = COLOR_VARIANT_IDS.reduce((sum, variant) => sum + getColorVariant(variant).weight, 0);
+  let roll = Math.random() * total;
+  for (const variant of COLOR_VARIANT_IDS) {
+    roll -= getColorVariant(variant).weight;
+    if (roll < 0) return variant;
+  }
+  return traits.colorVariant;
+}
+
+// Shop-bought seeds vary a little around the species' baseline
+export function wildTraits(): TreeTraits {
+  const base = createBaseTraits();
+  return {
+    growthSpeed: mutate(base.growthSpeed),
+    hardiness: mutate(base.hardiness),
+    yield: mutate(base.yield),
+    colorVariant: mutateColor(base)
+  };
+}
+
+// Each trait comes from one parent or the other, then drifts a little
+export function breedTraits(parent: TreeTraits, pollinator: TreeTraits = parent): TreeTraits {
+  const pick = (): TreeTraits => Math.random() < 0.5 ? parent : pollinator;
+  return {
+    growthSpeed: mutate(pick().growthSpeed),
+    hardiness: mutate(pick().hardiness),
+    yield: mutate(pick().yield),
+    colorVariant: mutateColor(pick())
+  };
+}
+
+// Mature trees of the same species close enough to pollinate `tree`
+export function findPollinators(tree: Tree, trees: Tree[]): Tree[] {
+  return trees.filter(other =>
+    other.id !== tree.id &&
+    other.type === tree.type &&
+    other.status === 'alive' &&
+    other.growthStage >= MAX_GROWTH_STAGE &&
+    Math.hypot(other.x - tree.x, other.z - tree.z) <= POLLINATION_RADIUS
+  );
+}
+
+// Seeds from a harvested tree, each crossed with a random nearby pollinator (or itself if there are none)
+export function breedSeeds(tree: Tree, trees: Tree[], count: number): TreeTraits[] {
+  const pollinators = findPollinators(tree, trees);
+  return Array.from({ length: count }, () => {
+    const pollinator = pollinators[Math.floor(Math.random() * pollinators.length)];
+    return breedTraits(tree.traits, pollinator?.traits);
+  });
+}
+
+export function storeSeedTraits(gameState: GameState, type: TreeType, traits: TreeTraits[]): void {
+  const stored = gameState.resources.seedTraits[type] ?? [];
+  stored.push(...traits);
+  gameState.resources.seedTraits[type] = stored;
+}
+
+// Traits for the next seed planted: bred seeds go first, plain ones are wild
+export function takeSeedTraits(gameState: GameState, type: TreeType): TreeTraits {
+  return gameState.resources.seedTraits[type]?.shift() ?? wildTraits();
+}
@@ -0,0 +1,83 @@
+import type { Response, Router } from 'express';
+import { context } from '@devvit/web/server';
+import { ApiError, ApiErrorCode, FieldError } from '../../shared/types/api';
+import { RouteDefinition } from '../../shared/api/routes';
+import { formatFieldErrors, validate } from '../../shared/validation/schema';
+import { ConflictError } from './storage';
+
+const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthenticated: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  rejected: 422,
+  internal: 500
+};
+
+const MAX_CONFLICT_RETRIES = 3;
+
+// Thrown by handlers to answer with an error; the message is shown to the player
+export class RouteError extends Error {
+  readonly code: ApiErrorCode;
+  readonly errors: FieldError[] | undefined;
+
+  constructor(code: ApiErrorCode, message: string, errors?: FieldError[]) {
+    super(message);
+    this.name = 'RouteError';
+    this.code = code;
+    this.errors = errors;
+  }
+}
+
+export type RouteContext = {
+  playerId: string; // Set by the authenticate middleware
+  postId: string | undefined;
+};
+
+export type RouteHandler<Req, Res> = (body: Req, route: RouteContext) => Promise<Res>;
+
+export function sendError(res: Response, code: ApiErrorCode, message: string, errors?: FieldError[]): void {
+  const error: ApiError = { status: 'error', code, message };
+  if (errors) error.errors = errors;
+  res.status(API_ERROR_STATUS[code]).json(error);
+}
+
+// Run a handler, re-running it from the start when its save lost a race with another request for the same player
+async function runWithRetries<Res>(run: () => Promise<Res>): Promise<Res> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (!(error instanceof ConflictError) || attempt >= MAX_CONFLICT_RETRIES) throw error;
+    }
+  }
+}
+
+// Register a handler for a route in the shared contract. The body arrives validated against the route's schema,
+// and whatever the handler returns or throws is sent in the route's response type or the shared error envelope.
+export function handle<Req, Res>(router: Router, route: RouteDefinition<Req, Res>, handler: RouteHandler<Req, Res>): void {
+  const method = route.method === 'GET' ? 'get' : 'post';
+  router[method](route.path, async (req, res): Promise<void> => {
+    const result = validate(route.request, req.body);
+    if (!result.valid) {
+      sendError(res, 'invalid_request', `Invalid request: ${formatFieldErrors(result.errors)}`, result.errors);
+      return;
+    }
+
+    const routeContext: RouteContext = { playerId: res.locals.playerId as string, postId: context.postId };
+    try {
+      res.json(await runWithRetries(() => handler(result.value, routeContext)));
+    } catch (error) {
+      if (error instanceof RouteError) {
+        sendError(res, error.code, error.message, error.errors);
+      } else if (error instanceof ConflictError) {
+        console.warn(`Giving up on ${route.path} after ${MAX_CONFLICT_RETRIES} conflicting saves:`, error.message);
+        sendError(res, 'conflict', 'Your game was updated by another action, please try again');
+      } else {
+        console.error(`Error handling ${route.path}:`, error);
+        sendError(res, 'internal', 'Something went wrong, please try again');
+      }
+    }
+  });
+}
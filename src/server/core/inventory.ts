@@ -0,0 +1,82 @@
+import { Inventory, ItemId, ItemStack } from '../../shared/types/api';
+import { getItem, isItemId } from '../../shared/data/items';
+
+export type InventoryResult = { success: true } | { success: false; message: string };
+
+export function getItemCount(inventory: Inventory, itemId: ItemId): number {
+  return inventory.find(stack => stack.itemId === itemId)?.quantity ?? 0;
+}
+
+export function hasItems(inventory: Inventory, items: ItemStack[]): boolean {
+  return items.every(item => getItemCount(inventory, item.itemId) >= item.quantity);
+}
+
+// Check a set of changes (positive grants, negative consumes) against the inventory without touching it
+export function validateItemChanges(inventory: Inventory, changes: ItemStack[]): InventoryResult {
+  const totals = new Map<ItemId, number>();
+  for (const change of changes) {
+    if (!isItemId(change.itemId)) {
+      return { success: false, message: `Unknown item: ${change.itemId}` };
+    }
+    if (!Number.isInteger(change.quantity)) {
+      return { success: false, message: `Invalid quantity for ${change.itemId}` };
+    }
+    totals.set(change.itemId, (totals.get(change.itemId) ?? 0) + change.quantity);
+  }
+
+  for (const [itemId, delta] of totals) {
+    const item = getItem(itemId);
+    const quantity = getItemCount(inventory, itemId) + delta;
+    if (quantity < 0) {
+      return { success: false, message: `Not enough ${item.name}!` };
+    }
+    if (quantity > item.maxStack) {
+      return { success: false, message: `You can't carry more than ${item.maxStack} ${item.name}!` };
+    }
+  }
+
+  return { success: true };
+}
+
+// Apply every change or none of them
+export function applyItemChanges(inventory: Inventory, changes: ItemStack[]): InventoryResult {
+  const result = validateItemChanges(inventory, changes);
+  if (!result.success) return result;
+
+  for (const change of changes) {
+    const stack = inventory.find(s => s.itemId === change.itemId);
+    if (stack) {
+      stack.quantity += change.quantity;
+    } else {
+      inventory.push({ itemId: change.itemId, quantity: change.quantity });
+    }
+  }
+
+  // Drop emptied stacks so the inventory only lists what the player holds
+  for (let i = inventory.length - 1; i >= 0; i--) {
+    if (inventory[i]!.quantity === 0) {
+      inventory.splice(i, 1);
+    }
+  }
+
+  return { success: true };
+}
+
+function checkPositive(items: ItemStack[]): InventoryResult {
+  const invalid = items.find(item => item.quantity <= 0);
+  return invalid
+    ? { success: false, message: `Invalid quantity for ${invalid.itemId}` }
+    : { success: true };
+}
+
+export function grantItems(inventory: Inventory, items: ItemStack[]): InventoryResult {
+  const check = checkPositive(items);
+  if (!check.success) return check;
+  return applyItemChanges(inventory, items);
+}
+
+export function consumeItems(inventory: Inventory, items: ItemStack[]): InventoryResult {
+  const check = checkPositive(items);
+  if (!check.success) return check;
+  return applyItemChanges(inventory, items.map(item => ({ itemId: item.itemId, quantity: -item.quantity })));
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { createSeedInventory } from '../../shared/data/species';
+import { createPlayerStats } from '../../shared/data/achievements';
+import { createBaseTraits } from '../../shared/data/genetics';
+import { getSchemaVersion, migrateRecord, serializeRecord } from './migrations';
+import { MAX_SOIL_NUTRIENTS } from './soil';
+import { readFixture } from './testing/fixtures';
+
+describe('migrateRecord', () => {
+  it('moves a baseline game state onto per-species seeds and items', () => {
+    const { record, migrated } = migrateRecord('gameState', readFixture('game-state-v0.json'));
+
+    expect(migrated).toBe(true);
+    expect(record.biomeId).toBe('massive_world');
+    expect(record.version).toBe(0);
+    expect(record.lastPlayed).toBe(1700000500000);
+    expect(record.resources).toEqual({
+      seeds: createSeedInventory({ oak: 7 }),
+      seedTraits: {},
+      water: 10
+    });
+    expect(record.inventory).toEqual([{ itemId: 'fertilizer', quantity: 3 }]);
+  });
+
+  it('fills in biome settings and leaves inline plots to be split out', () => {
+    const json = readFixture('biome-v0.json');
+    const { record, migrated } = migrateRecord('biome', json);
+
+    expect(migrated).toBe(true);
+    expect(record.environment.fogDensity).toBe(0.1);
+    expect(record.weather).toEqual({ type: 'clear', startedAt: 0, endsAt: 0 });
+    expect(record).toHaveProperty('landPlots');
+
+    const { landPlots } = JSON.parse(json) as { landPlots: unknown[] };
+    for (const plot of landPlots) {
+      const migratedPlot = migrateRecord('landPlot', JSON.stringify(plot));
+      expect(migratedPlot.migrated).toBe(true);
+      expect(migratedPlot.record.soilNutrients).toBe(MAX_SOIL_NUTRIENTS);
+      expect(migratedPlot.record.biomeType).toBe('mountain');
+    }
+  });
+
+  it('gives trees without a status or traits a living, common start', () => {
+    const trees = JSON.parse(readFixture('trees-v0.json')) as unknown[];
+
+    for (const tree of trees) {
+      const { record, migrated } = migrateRecord('tree', JSON.stringify(tree));
+      expect(migrated).toBe(true);
+      expect(record.status).toBe('alive');
+      expect(record.traits).toEqual(createBaseTraits());
+      expect(record.growthProgress).toBe(record.growthStage);
+      expect(record.lastSimulatedAt).toBe(record.plantedAt);
+    }
+  });
+
+  it('runs every player migration in turn on an unversioned player', () => {
+    const { record, migrated } = migrateRecord('player', readFixture('player-v0.json'));
+
+    expect(migrated).toBe(true);
+    expect(record.stats).toEqual(createPlayerStats());
+    expect(record.lastMovedAt).toBe(record.lastActive);
+  });
+
+  it('only runs the later player migrations on a player saved at version 1', () => {
+    const json = readFixture('player-v1.json');
+    const { record, migrated } = migrateRecord('player', json);
+
+    expect(migrated).toBe(true);
+    expect(record.stats).toEqual((JSON.parse(json) as { stats: unknown }).stats);
+    expect(record.lastMovedAt).toBe(1700003600000);
+  });
+
+  it('leaves records saved at the current version alone', () => {
+    const player = migrateRecord('player', readFixture('player-v0.json')).record;
+    const json = serializeRecord('player', player);
+
+    expect(JSON.parse(json)).toHaveProperty('schemaVersion', getSchemaVersion('player'));
+    expect(migrateRecord('player', json)).toEqual({ record: player, migrated: false });
+  });
+});
@@ -0,0 +1,146 @@
+import { Biome, ChatMessage, GameState, InfectedTree, LandPlot, Player, Tree, TreeType } from '../../shared/types/api';
+import { createSeedInventory } from '../../shared/data/species';
+import { createPlayerStats } from '../../shared/data/achievements';
+import { createBaseTraits } from '../../shared/data/genetics';
+import { getBiomeTypeAt } from '../../shared/data/world';
+import { grantItems } from './inventory';
+import { MAX_SOIL_NUTRIENTS } from './soil';
+
+// Every record in redis carries the schemaVersion it was written at. Records saved before versioning
+// count as version 0, and each migration below upgrades a record by exactly one version.
+
+type Resources = GameState['resources'];
+
+export type StoredGameState = Pick<GameState, 'resources' | 'inventory' | 'lastPlayed'> & {
+  biomeId: string;
+  version: number; // Bumped on every save so that concurrent writers can tell they lost a race
+};
+export type StoredBiome = Omit<Biome, 'landPlots'>;
+
+export type StoredRecords = {
+  player: Player;
+  gameState: StoredGameState;
+  biome: StoredBiome;
+  tree: Tree;
+  landPlot: LandPlot;
+  infectedTree: InfectedTree;
+  chatMessage: ChatMessage;
+};
+export type RecordKind = keyof StoredRecords;
+
+// Fields that older records may be missing
+type Loose<T, K extends keyof T> = Omit<T, K> & Partial<Pick<T, K>>;
+
+type LegacyRecords = {
+  player: Loose<Player, 'stats' | 'lastMovedAt'>;
+  gameState: Loose<StoredGameState, 'biomeId' | 'version' | 'inventory' | 'lastPlayed'> & {
+    resources: Omit<Resources, 'seeds' | 'seedTraits'> & {
+      seeds: number | Partial<Resources['seeds']>; // A single oak counter before species
+      seedTraits?: Resources['seedTraits'];
+      fertilizer?: number; // Counted here before items existed
+      coins?: number; // Copied from the player record, which always had the real balance
+    };
+    currentBiome?: { id: string }; // The whole biome used to be stored in the game state
+    trees?: Tree[]; // As were the trees
+  };
+  biome: Loose<StoredBiome, 'weather'> & {
+    environment: Loose<Biome['environment'], 'fogDensity'>;
+    landPlots?: LandPlot[]; // Moved to their own key, see storage
+    players?: Player[];
+  };
+  tree: Loose<Tree, 'growthProgress' | 'lastSimulatedAt' | 'status' | 'traits'>;
+  landPlot: Loose<LandPlot, 'soilNutrients'>;
+  infectedTree: InfectedTree;
+  chatMessage: ChatMessage;
+};
+
+type Migration<K extends RecordKind> = (record: LegacyRecords[K]) => void;
+
+const DEFAULT_TREE_TYPE: TreeType = 'oak';
+const DEFAULT_FOG_DENSITY = 0.1;
+
+// Append a migration to a kind's list to change its schema; never edit or reorder ones already shipped
+const MIGRATIONS: { [K in RecordKind]: Migration<K>[] } = {
+  player: [
+    // 1: lifetime stats for achievements, including varieties bred
+    player => {
+      player.stats ??= createPlayerStats();
+      player.stats.varietiesDiscovered ??= [];
+    },
+    // 2: when the last move was accepted, for movement validation
+    player => {
+      player.lastMovedAt ??= player.lastActive;
+    }
+  ],
+  gameState: [
+    // 1: per-species seeds, bred seed traits, fertilizer as an item and coins only on the player
+    state => {
+      const { seeds, seedTraits, fertilizer, coins: _coins, ...resources } = state.resources;
+      state.inventory ??= [];
+      if (fertilizer && fertilizer > 0) {
+        grantItems(state.inventory, [{ itemId: 'fertilizer', quantity: fertilizer }]);
+      }
+      state.resources = {
+        ...resources,
+        seeds: typeof seeds === 'number'
+          ? createSeedInventory({ [DEFAULT_TREE_TYPE]: seeds })
+          : createSeedInventory(seeds),
+        seedTraits: seedTraits ?? {}
+      };
+      if (state.currentBiome) {
+        state.biomeId ??= state.currentBiome.id;
+      }
+      state.version ??= 0;
+      state.lastPlayed ??= Date.now();
+    }
+  ],
+  biome: [
+    // 1: fog density per biome and the weather schedule
+    biome => {
+      biome.environment.fogDensity ??= DEFAULT_FOG_DENSITY;
+      biome.weather ??= { type: 'clear', startedAt: 0, endsAt: 0 };
+    }
+  ],
+  tree: [
+    // 1: incremental simulation, lifecycle status and inherited traits
+    tree => {
+      tree.growthProgress ??= tree.growthStage;
+      tree.lastSimulatedAt ??= tree.plantedAt;
+      tree.status ??= 'alive';
+      tree.traits ??= createBaseTraits();
+    }
+  ],
+  landPlot: [
+    // 1: soil nutrients
+    plot => {
+      plot.soilNutrients ??= MAX_SOIL_NUTRIENTS;
+    },
+    // 2: the biome of the region the plot is in, rather than the whole world's
+    plot => {
+      plot.biomeType = getBiomeTypeAt(plot.x, plot.z);
+    }
+  ],
+  infectedTree: [],
+  chatMessage: []
+};
+
+export function getSchemaVersion(kind: RecordKind): number {
+  return MIGRATIONS[kind].length;
+}
+
+// Parse a stored record and bring it up to the current schema, noting whether anything changed
+export function migrateRecord<K extends RecordKind>(kind: K, json: string): { record: StoredRecords[K]; migrated: boolean } {
+  const { schemaVersion = 0, ...record } = JSON.parse(json) as LegacyRecords[K] & { schemaVersion?: number };
+  const migrations: Migration<K>[] = MIGRATIONS[kind];
+  for (const migration of migrations.slice(schemaVersion)) {
+    migration(record as LegacyRecords[K]);
+  }
+  return {
+    record: record as unknown as StoredRecords[K],
+    migrated: schemaVersion < migrations.length
+  };
+}
+
+export function serializeRecord<K extends RecordKind>(kind: K, record: StoredRecords[K]): string {
+  return JSON.stringify({ ...record, schemaVersion: getSchemaVersion(kind) });
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { Player } from '../../shared/types/api';
+import { getTerrainHeight, INTERACTION_RANGE, PLAYER_SPEED, WORLD_WIDTH } from '../../shared/data/world';
+import { createPlayerStats } from '../../shared/data/achievements';
+import { RouteError } from './handlers';
+import { applyMove, requireWithinReach } from './movement';
+
+const START = 1700000000000;
+
+function createPlayer(): Player {
+  return {
+    id: 'sapling_sam',
+    username: 'sapling_sam',
+    avatar: '🌳',
+    level: 1,
+    experience: 0,
+    coins: 200,
+    redditGold: 0,
+    achievements: [],
+    stats: createPlayerStats(),
+    landPlots: [],
+    position: { x: 0, y: getTerrainHeight(0, 0), z: 0 },
+    lastMovedAt: START,
+    lastActive: START,
+    premiumFeatures: { speedBoost: false, doubleXP: false, instantGrowth: false }
+  };
+}
+
+describe('applyMove', () => {
+  it('keeps up with a player walking at full speed, however unevenly the updates arrive', () => {
+    const player = createPlayer();
+    let now = START;
+    for (let i = 1; i <= 20; i++) {
+      // Sent every half second, but arriving bunched up in pairs
+      now += i % 2 === 0 ? 100 : 900;
+      expect(applyMove(player, 0, (i * PLAYER_SPEED) / 2, now)).toBeNull();
+    }
+    expect(player.position.z).toBe(10 * PLAYER_SPEED);
+    expect(player.position.y).toBe(getTerrainHeight(0, 10 * PLAYER_SPEED));
+  });
+
+  it('only grants the slack once to moves fired off in quick succession', () => {
+    const player = createPlayer();
+    const reasons: (string | null)[] = [];
+    for (let i = 1; i <= 50; i++) {
+      reasons.push(applyMove(player, 0, player.position.z + 4, START + i)?.reason ?? null);
+    }
+
+    expect(reasons.slice(0, 2)).toEqual([null, null]);
+    expect(reasons.slice(2)).not.toContain(null);
+    expect(player.position.z).toBe(8);
+  });
+
+  it('refuses a teleport however long the player has been idle', () => {
+    const player = createPlayer();
+    const position = player.position;
+
+    const correction = applyMove(player, 0, 500, START + 60 * 60 * 1000);
+
+    expect(correction).toEqual({ reason: 'too_fast', position });
+    expect(player.position).toBe(position);
+    expect(player.lastMovedAt).toBe(START);
+  });
+
+  it('lets an idle player make up for a few seconds of walking in one move', () => {
+    const player = createPlayer();
+
+    expect(applyMove(player, 0, 5 * PLAYER_SPEED, START + 60 * 60 * 1000)).toBeNull();
+  });
+
+  it('lets a player walk up the step at the edge of the central valley', () => {
+    const player = createPlayer();
+    player.position = { x: 299.9, y: getTerrainHeight(299.9, 0), z: 0 };
+
+    expect(applyMove(player, 300.2, 0, START + 1000)).toBeNull();
+    expect(player.position.y).toBe(getTerrainHeight(300.2, 0));
+  });
+
+  it('refuses moves out of the world', () => {
+    const player = createPlayer();
+    player.position = { x: WORLD_WIDTH / 2, y: getTerrainHeight(WORLD_WIDTH / 2, 0), z: 0 };
+
+    expect(applyMove(player, WORLD_WIDTH / 2 + 1, 0, START + 1000)?.reason).toBe('out_of_bounds');
+  });
+});
+
+describe('requireWithinReach', () => {
+  it('allows planting, watering and harvesting within reach', () => {
+    const player = createPlayer();
+
+    expect(() => requireWithinReach(player, INTERACTION_RANGE, 0)).not.toThrow();
+  });
+
+  it('refuses planting, watering and harvesting out of reach', () => {
+    const player = createPlayer();
+    const tree = { x: INTERACTION_RANGE, z: 1 };
+
+    expect(() => requireWithinReach(player, INTERACTION_RANGE + 1, 0)).toThrow(RouteError);
+    expect(() => requireWithinReach(player, tree.x, tree.z)).toThrow('That is too far away, walk closer first!');
+  });
+});
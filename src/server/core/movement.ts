@@ -0,0 +1,51 @@
+import { MoveCorrection, Player } from '../../shared/types/api';
+import { getTerrainHeight, isInWorld, isWithinReach, PLAYER_SPEED } from '../../shared/data/world';
+import { RouteError } from './handlers';
+
+const SPEED_TOLERANCE = 1.25; // Headroom for requests arriving closer together than they were sent
+const MOVE_SLACK = 10; // Distance a player can get ahead of the speed limit, for the client's movement between updates
+const MAX_MOVE_INTERVAL = 5000; // Idle time beyond this doesn't let the next move go any further
+
+const ALLOWED_SPEED = (PLAYER_SPEED * SPEED_TOLERANCE) / 1000; // Per millisecond
+
+// Move the player if they could have walked there since their last accepted move, keeping them on the ground.
+// A refused move leaves them where they were and says why, so that the client can snap back.
+//
+// Walking time is accounted for on lastMovedAt: each accepted move advances it by the time the distance takes at
+// the allowed speed. The slack lets it run ahead of now, but only once; moves that follow have to wait for the
+// clock to catch up, so however quickly requests come a player never gets further than MOVE_SLACK ahead.
+export function applyMove(player: Player, x: number, z: number, now: number): MoveCorrection | null {
+  const reason = checkMove(player, x, z, now);
+  if (reason) {
+    return { reason, position: player.position };
+  }
+
+  player.lastMovedAt = getWalkedUntil(player, x, z, now);
+  player.position = { x, y: getTerrainHeight(x, z), z };
+  return null;
+}
+
+// When walking to a position would use the player's allowance up to
+function getWalkedUntil(player: Player, x: number, z: number, now: number): number {
+  const distance = Math.hypot(x - player.position.x, z - player.position.z);
+  return Math.max(player.lastMovedAt, now - MAX_MOVE_INTERVAL) + distance / ALLOWED_SPEED;
+}
+
+function checkMove(player: Player, x: number, z: number, now: number): MoveCorrection['reason'] | null {
+  if (!isInWorld(x, z)) {
+    return 'out_of_bounds';
+  }
+
+  // All the ground in the world is walkable, so nothing else stands in the way
+  if (getWalkedUntil(player, x, z, now) > now + MOVE_SLACK / ALLOWED_SPEED) {
+    return 'too_fast';
+  }
+  return null;
+}
+
+// Players can only work the ground within reach of where the server last had them
+export function requireWithinReach(player: Player, x: number, z: number): void {
+  if (!isWithinReach(player.position, x, z)) {
+    throw new RouteError('rejected', 'That is too far away, walk closer first!');
+  }
+}
@@ -0,0 +1,61 @@
+import { GameState, InfectedTree, OfflineSummary, WeatherType } from '../../shared/types/api';
+import { SEASON_LENGTH } from '../../shared/data/seasons';
+import { simulateGameState, SimulationResult } from './simulation';
+import { getWeatherBetween } from '../../shared/data/weather';
+import { getBiomeTypeAt } from '../../shared/data/world';
+
+// Shorter absences than this aren't worth a summary
+export const OFFLINE_SUMMARY_THRESHOLD = 10 * 60 * 1000;
+
+// Simulate everything since the player was last here and describe what happened
+export function simulateOffline(
+  gameState: GameState,
+  now: number = Date.now(),
+  neighbourInfections: InfectedTree[] = [],
+  seasonLength: number = SEASON_LENGTH
+): { simulation: SimulationResult; summary: OfflineSummary | null } {
+  const since = gameState.lastPlayed;
+  const before = new Map(gameState.trees.map(tree => [tree.id, { health: tree.health, infected: !!tree.infection }]));
+
+  const simulation = simulateGameState(gameState, now, neighbourInfections, seasonLength);
+  if (now - since < OFFLINE_SUMMARY_THRESHOLD) {
+    return { simulation, summary: null };
+  }
+
+  let healthLost = 0;
+  const newInfections: OfflineSummary['newInfections'] = [];
+  for (const tree of gameState.trees) {
+    const previous = before.get(tree.id);
+    if (!previous) continue;
+    healthLost += Math.max(0, previous.health - tree.health);
+    if (tree.infection && !previous.infected) {
+      newInfections.push({ treeId: tree.id, treeType: tree.type, disease: tree.infection.disease });
+    }
+  }
+
+  // Count each spell of notable weather where the player is once
+  const { x, z } = gameState.player.position;
+  const weather = new Map<WeatherType, number>();
+  for (const period of getWeatherBetween(gameState.currentBiome.id, getBiomeTypeAt(x, z), since, now)) {
+    if (period.type !== 'clear') {
+      weather.set(period.type, (weather.get(period.type) ?? 0) + 1);
+    }
+  }
+
+  const newNeighbours = [...new Set(gameState.currentBiome.landPlots
+    .filter(plot => plot.ownerId !== gameState.player.id && plot.purchasedAt > since)
+    .map(plot => plot.ownerId))];
+
+  return {
+    simulation,
+    summary: {
+      awayFor: now - since,
+      stageChanges: simulation.stageChanges,
+      statusChanges: simulation.statusChanges,
+      newInfections,
+      weather: [...weather].map(([type, count]) => ({ type, count })),
+      newNeighbours,
+      healthLost: Math.round(healthLost)
+    }
+  };
+}
@@ -0,0 +1,21 @@
+import { LevelUp, Player } from '../../shared/types/api';
+import { getLevelUnlocks, levelForExperience } from '../../shared/data/progression';
+
+// Every experience grant goes through here so levels never fall out of step with experience
+export function grantExperience(player: Player, amount: number): LevelUp | null {
+  const multiplier = player.premiumFeatures.doubleXP ? 2 : 1;
+  player.experience += Math.floor(amount * multiplier);
+
+  const fromLevel = player.level;
+  const toLevel = levelForExperience(player.experience);
+  if (toLevel <= fromLevel) return null;
+
+  player.level = toLevel;
+
+  const unlocks: string[] = [];
+  for (let level = fromLevel + 1; level <= toLevel; level++) {
+    unlocks.push(...getLevelUnlocks(level));
+  }
+
+  return { fromLevel, toLevel, unlocks };
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RealtimeMessage, Tree } from '../../shared/types/api';
+import { AREA_SIZE } from '../../shared/data/world';
+import { getAreaChannel } from '../../shared/api/realtime';
+import { createBaseTraits } from '../../shared/data/genetics';
+import { createLocalRealtime, publishTreeChanges, RealtimeTransport, setRealtimeTransport } from './realtime';
+
+const BIOME_ID = 'massive_world';
+
+function createTree(id: string, x: number, z: number): Tree {
+  return {
+    id,
+    type: 'oak',
+    x,
+    y: 0,
+    z,
+    growthStage: 1,
+    growthProgress: 1,
+    plantedAt: 1700000000000,
+    lastWatered: 1700000000000,
+    lastSimulatedAt: 1700000000000,
+    health: 100,
+    status: 'alive',
+    traits: createBaseTraits(),
+    ownerId: 'sapling_sam'
+  };
+}
+
+// Everything sent on each of the given channels
+function listen(channels: string[]): Map<string, RealtimeMessage[]> {
+  const local = createLocalRealtime();
+  setRealtimeTransport(local);
+  const received = new Map(channels.map(channel => [channel, [] as RealtimeMessage[]]));
+  received.forEach((messages, channel) => local.subscribe(channel, message => messages.push(message)));
+  return received;
+}
+
+describe('publishTreeChanges', () => {
+  afterEach(() => {
+    setRealtimeTransport(createLocalRealtime());
+  });
+
+  it('sends each area only the trees in it', async () => {
+    const here = getAreaChannel(BIOME_ID, 10, 10);
+    const there = getAreaChannel(BIOME_ID, 10 + AREA_SIZE, 10);
+    const received = listen([here, there]);
+    const planted = createTree('tree_here', 10, 10);
+    const grown = createTree('tree_there', 10 + AREA_SIZE, 10);
+    const cleared = createTree('tree_gone', 20, 20);
+
+    await publishTreeChanges(BIOME_ID, 'sapling_sam', [planted, grown], [cleared]);
+
+    expect(received.get(here)).toEqual([
+      { type: 'trees_changed', ownerId: 'sapling_sam', trees: [planted], removedTreeIds: ['tree_gone'] }
+    ]);
+    expect(received.get(there)).toEqual([
+      { type: 'trees_changed', ownerId: 'sapling_sam', trees: [grown], removedTreeIds: [] }
+    ]);
+  });
+
+  it('sends nothing when no trees changed', async () => {
+    const channel = getAreaChannel(BIOME_ID, 10, 10);
+    const received = listen([channel]);
+
+    await publishTreeChanges(BIOME_ID, 'sapling_sam', [], []);
+
+    expect(received.get(channel)).toEqual([]);
+  });
+
+  it('carries on when a broadcast fails, as the change is already saved', async () => {
+    const failing: RealtimeTransport = { send: () => Promise.reject(new Error('Realtime is down')) };
+    setRealtimeTransport(failing);
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(publishTreeChanges(BIOME_ID, 'sapling_sam', [createTree('tree_here', 10, 10)], [])).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalledOnce();
+    consoleError.mockRestore();
+  });
+});
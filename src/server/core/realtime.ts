@@ -0,0 +1,84 @@
+import { realtime } from '@devvit/web/server';
+import { ChatMessage, LandPlot, Player, RealtimeMessage, Tree } from '../../shared/types/api';
+import { getAreaChannel, getChatChannel } from '../../shared/api/realtime';
+
+// Where broadcasts go: Devvit realtime when running on Reddit, or an in-process stand-in for tests
+export type RealtimeTransport = {
+  send(channel: string, message: RealtimeMessage): Promise<void>;
+};
+
+export type LocalRealtime = RealtimeTransport & {
+  subscribe(channel: string, listener: (message: RealtimeMessage) => void): () => void;
+};
+
+const devvitRealtime: RealtimeTransport = {
+  send: (channel, message) => realtime.send(channel, message)
+};
+
+let transport: RealtimeTransport = devvitRealtime;
+
+export function setRealtimeTransport(next: RealtimeTransport): void {
+  transport = next;
+}
+
+// Delivers each message straight to the listeners subscribed to its channel in this process
+export function createLocalRealtime(): LocalRealtime {
+  const listeners = new Map<string, Set<(message: RealtimeMessage) => void>>();
+  return {
+    async send(channel, message) {
+      listeners.get(channel)?.forEach(listener => listener(message));
+    },
+    subscribe(channel, listener) {
+      const channelListeners = listeners.get(channel) ?? new Set();
+      channelListeners.add(listener);
+      listeners.set(channel, channelListeners);
+      return () => {
+        channelListeners.delete(listener);
+      };
+    }
+  };
+}
+
+// Broadcasts are best effort: the action they describe has already been saved
+async function broadcast(channel: string, message: RealtimeMessage): Promise<void> {
+  try {
+    await transport.send(channel, message);
+  } catch (error) {
+    console.error(`Failed to broadcast ${message.type} on ${channel}:`, error);
+  }
+}
+
+export async function publishPlayerMoved(biomeId: string, player: Player): Promise<void> {
+  const { x, z } = player.position;
+  await broadcast(getAreaChannel(biomeId, x, z), {
+    type: 'player_moved',
+    playerId: player.id,
+    username: player.username,
+    position: player.position
+  });
+}
+
+export async function publishChatMessage(biomeId: string, chatMessage: ChatMessage): Promise<void> {
+  await broadcast(getChatChannel(biomeId), { type: 'chat_message', chatMessage });
+}
+
+export async function publishPlotPurchased(biomeId: string, landPlot: LandPlot): Promise<void> {
+  await broadcast(getAreaChannel(biomeId, landPlot.x, landPlot.z), { type: 'plot_purchased', landPlot });
+}
+
+// One message per area the trees are in
+export async function publishTreeChanges(biomeId: string, ownerId: string, trees: Tree[], removedTrees: Tree[]): Promise<void> {
+  const areas = new Map<string, { trees: Tree[]; removedTreeIds: string[] }>();
+  const getArea = (tree: Tree): { trees: Tree[]; removedTreeIds: string[] } => {
+    const channel = getAreaChannel(biomeId, tree.x, tree.z);
+    const area = areas.get(channel) ?? { trees: [], removedTreeIds: [] };
+    areas.set(channel, area);
+    return area;
+  };
+  trees.forEach(tree => getArea(tree).trees.push(tree));
+  removedTrees.forEach(tree => getArea(tree).removedTreeIds.push(tree.id));
+
+  await Promise.all([...areas].map(([channel, area]) =>
+    broadcast(channel, { type: 'trees_changed', ownerId, ...area })
+  ));
+}
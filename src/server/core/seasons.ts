@@ -0,0 +1,16 @@
+import { settings } from '@devvit/web/server';
+import { SEASON_LENGTH } from '../../shared/data/seasons';
+
+const HOUR = 60 * 60 * 1000;
+
+// How long each season lasts, as set by the subreddit's moderators in the app's settings (see devvit.json).
+// Playtests without settings, and unset or nonsensical values, get the default calendar.
+export async function getSeasonLength(): Promise<number> {
+  try {
+    const hours = await settings.get<number>('seasonLengthHours');
+    return hours !== undefined && Number.isFinite(hours) && hours > 0 ? hours * HOUR : SEASON_LENGTH;
+  } catch (error) {
+    console.warn('Failed to read the season length setting, using the default:', error);
+    return SEASON_LENGTH;
+  }
+}
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameState, Tree } from '../../shared/types/api';
+import { SEASON_LENGTH } from '../../shared/data/seasons';
+import { createBaseTraits } from '../../shared/data/genetics';
+import { createPlayerStats } from '../../shared/data/achievements';
+import { createSeedInventory } from '../../shared/data/species';
+import { simulateGameState, simulateTree, WITHER_DURATION } from './simulation';
+
+const SPRING = 1000 * 4 * SEASON_LENGTH; // The first day of a year
+const WINTER = SPRING + 3 * SEASON_LENGTH;
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// A freshly planted oak, which grows a stage every 30 seconds and starts getting thirsty 2 hours after watering
+function createTree(id: string, plantedAt: number): Tree {
+  return {
+    id,
+    type: 'oak',
+    x: 10,
+    y: 0,
+    z: 10,
+    growthStage: 0,
+    growthProgress: 0,
+    plantedAt,
+    lastWatered: plantedAt,
+    lastSimulatedAt: plantedAt,
+    health: 100,
+    status: 'alive',
+    traits: createBaseTraits(),
+    ownerId: 'sapling_sam'
+  };
+}
+
+// Diseases only break out on a random roll; keep them out of the way
+beforeEach(() => {
+  vi.spyOn(Math, 'random').mockReturnValue(1);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('simulateTree', () => {
+  it('grows half as fast again just after watering', () => {
+    const watered = createTree('tree_watered', SPRING);
+    const thirsty = { ...createTree('tree_thirsty', SPRING), lastWatered: SPRING - 10 * MINUTE };
+
+    simulateTree(watered, SPRING + MINUTE);
+    simulateTree(thirsty, SPRING + MINUTE);
+
+    expect(watered.growthProgress).toBeCloseTo(3);
+    expect(thirsty.growthProgress).toBeCloseTo(2);
+    expect(watered.growthStage).toBe(3);
+  });
+
+  it('withers when thirst takes its health to zero', () => {
+    const tree = createTree('tree_here', SPRING);
+    // Two hours' grace, then 8 health an hour
+    const zeroHealthAt = SPRING + 2 * HOUR + 12.5 * HOUR;
+
+    const { statusChange } = simulateTree(tree, zeroHealthAt + HOUR);
+
+    expect(tree).toMatchObject({ status: 'withered', health: 0, witheredAt: zeroHealthAt });
+    expect(statusChange).toMatchObject({ fromStatus: 'alive', toStatus: 'withered' });
+  });
+
+  it('dies once it has been withered for WITHER_DURATION', () => {
+    const tree: Tree = { ...createTree('tree_here', SPRING), health: 0, status: 'withered', witheredAt: SPRING };
+
+    simulateTree(tree, SPRING + WITHER_DURATION - 1);
+    expect(tree.status).toBe('withered');
+
+    simulateTree(tree, SPRING + WITHER_DURATION);
+    expect(tree.status).toBe('dead');
+  });
+
+  it('does not grow in winter', () => {
+    const tree = { ...createTree('tree_here', WINTER), growthStage: 1, growthProgress: 1 };
+
+    const { stageChange } = simulateTree(tree, WINTER + 10 * MINUTE);
+
+    expect(tree.growthProgress).toBe(1);
+    expect(stageChange).toBeNull();
+  });
+});
+
+describe('simulateGameState', () => {
+  it('moves every tree forward and reports the ones that grew', () => {
+    const growing = createTree('tree_growing', SPRING);
+    const dormant = { ...createTree('tree_dormant', SPRING), lastSimulatedAt: SPRING + MINUTE };
+    const gameState: GameState = {
+      player: {
+        id: 'sapling_sam',
+        username: 'sapling_sam',
+        avatar: '🌳',
+        level: 1,
+        experience: 0,
+        coins: 200,
+        redditGold: 0,
+        achievements: [],
+        stats: createPlayerStats(),
+        landPlots: [],
+        position: { x: 10, y: 0, z: 10 },
+        lastMovedAt: SPRING,
+        lastActive: SPRING,
+        premiumFeatures: { speedBoost: false, doubleXP: false, instantGrowth: false }
+      },
+      currentBiome: {
+        id: 'test_world',
+        name: 'Test Forest',
+        type: 'forest',
+        maxPlayers: 200,
+        landPlots: [],
+        environment: { skyColor: '#87CEEB', groundColor: '#90EE90', fogColor: '#87CEEB', fogDensity: 0.1 },
+        weather: { type: 'clear', startedAt: 0, endsAt: 0 }
+      },
+      trees: [growing, dormant],
+      resources: { seeds: createSeedInventory({ oak: 3 }), seedTraits: {}, water: 10 },
+      inventory: [],
+      lastPlayed: SPRING
+    };
+
+    const { stageChanges } = simulateGameState(gameState, SPRING + MINUTE);
+
+    expect(stageChanges.map(change => change.treeId)).toEqual(['tree_growing']);
+    expect(gameState.trees.every(tree => tree.lastSimulatedAt === SPRING + MINUTE)).toBe(true);
+    expect(gameState.currentBiome.weather.startedAt).toBeGreaterThan(0);
+  });
+});
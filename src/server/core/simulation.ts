@@ -0,0 +1,215 @@
+import { Biome, GameState, InfectedTree, LandPlot, Tree, TreeStageChange, TreeStatus, Season, TreeStatusChange, Weather } from '../../shared/types/api';
+import { getSpecies } from '../../shared/data/species';
+import { getSeasonsBetween, SEASON_LENGTH } from '../../shared/data/seasons';
+import { getWeather, getWeatherBetween, STORM_MIN_STAGE, WeatherDefinition } from '../../shared/data/weather';
+import { getBiomeTypeAt } from '../../shared/data/world';
+import { depleteSoil, soilGrowthMultiplier } from './soil';
+import { updateWeather } from './weather';
+import { catchInfection, diseaseDamage, getInfectedTrees } from './disease';
+
+// Growth configuration (per-species timings live in the species registry)
+export const MAX_GROWTH_STAGE = 5;
+const WATER_BONUS_WINDOW = 60000; // Bonus applies for 1 minute after watering
+const WATER_BONUS = 1.5; // 50% faster growth while the bonus is active
+const PREFERRED_BIOME_BONUS = 1.25; // 25% faster growth in the species' preferred biome
+
+// Lifecycle configuration
+export const WITHER_DURATION = 2 * 60 * 60 * 1000; // Withered trees die after 2 hours without water
+export const REVIVE_HEALTH = 20; // Health a withered tree comes back with when watered
+
+export type SimulationResult = {
+  stageChanges: TreeStageChange[];
+  statusChanges: TreeStatusChange[];
+};
+
+// Length of the part of [from, to) that falls inside [start, end)
+function overlap(from: number, to: number, start: number, end: number): number {
+  return Math.max(0, Math.min(to, end) - Math.max(from, start));
+}
+
+// Advance growth and health over [from, to) for a tree that is still alive
+function simulateAlive(
+  tree: Tree,
+  from: number,
+  to: number,
+  plot: LandPlot | undefined,
+  weather: WeatherDefinition,
+  season: Season
+): void {
+  const species = getSpecies(tree.type);
+  // Rain keeps a tree freshly watered for as long as it falls
+  const thirstStart = weather.watersTrees ? Infinity : Math.max(from, tree.lastWatered + species.water.gracePeriod);
+  const healthLossPerMs = species.water.healthLossPerHour * weather.healthLossMultiplier / tree.traits.hardiness / (1000 * 60 * 60);
+  const zeroHealthAt = thirstStart + tree.health / healthLossPerMs;
+
+  // Trees stop growing the moment they wither
+  const growthEnd = Math.min(to, zeroHealthAt);
+
+  const elapsed = Math.max(0, growthEnd - from);
+  const wateredTime = weather.watersTrees
+    ? elapsed
+    : overlap(from, growthEnd, tree.lastWatered, tree.lastWatered + WATER_BONUS_WINDOW);
+  const biomeBonus = plot?.biomeType === species.preferredBiome ? PREFERRED_BIOME_BONUS : 1;
+  const soilBonus = plot ? soilGrowthMultiplier(plot) : 1;
+  const seasonBonus = species.seasonalGrowth[season];
+  const effectiveTime = (elapsed + wateredTime * (WATER_BONUS - 1)) *
+    biomeBonus * soilBonus * weather.growthMultiplier * seasonBonus * tree.traits.growthSpeed;
+  const previousProgress = tree.growthProgress;
+  tree.growthProgress = Math.min(MAX_GROWTH_STAGE, tree.growthProgress + effectiveTime / species.growthTime);
+
+  // Growing draws nutrients out of the plot's soil
+  if (plot) {
+    depleteSoil(plot, tree.growthProgress - previousProgress);
+  }
+
+  if (zeroHealthAt <= to) {
+    tree.health = 0;
+    tree.status = 'withered';
+    tree.witheredAt = zeroHealthAt;
+  } else {
+    tree.health = Math.max(0, tree.health - overlap(from, to, thirstStart, Infinity) * healthLossPerMs);
+  }
+
+  if (weather.watersTrees) {
+    tree.lastWatered = Math.max(tree.lastWatered, to);
+  }
+}
+
+// Infections eat away at a tree's health on top of thirst
+function applyDiseaseDamage(tree: Tree, from: number, to: number): void {
+  const damage = diseaseDamage(tree, from, to);
+  if (damage <= 0) return;
+
+  tree.health = Math.max(0, tree.health - damage);
+  if (tree.health === 0) {
+    tree.status = 'withered';
+    tree.witheredAt = to;
+  }
+}
+
+// Storms batter trees that have grown tall when they arrive
+function applyStormDamage(tree: Tree, weather: WeatherDefinition, at: number): void {
+  if (weather.stormDamage <= 0 || Math.floor(tree.growthProgress) < STORM_MIN_STAGE) return;
+
+  tree.health = Math.max(0, tree.health - weather.stormDamage);
+  if (tree.health === 0) {
+    tree.status = 'withered';
+    tree.witheredAt = at;
+  }
+}
+
+export function simulateTree(
+  tree: Tree,
+  now: number = Date.now(),
+  plot?: LandPlot,
+  biome?: Biome,
+  infectedTrees: InfectedTree[] = [],
+  seasonLength: number = SEASON_LENGTH
+): {
+  stageChange: TreeStageChange | null;
+  statusChange: TreeStatusChange | null;
+} {
+  const from = tree.lastSimulatedAt;
+  if (now <= from) return { stageChange: null, statusChange: null };
+
+  const fromStage = tree.growthStage;
+  const fromStatus: TreeStatus = tree.status;
+
+  catchInfection(tree, from, now, infectedTrees);
+
+  // Without a biome there is no weather to replay, so the whole stretch is clear. Otherwise the tree gets the
+  // weather of the region its plot is in
+  const periods: Weather[] = biome
+    ? getWeatherBetween(biome.id, plot?.biomeType ?? getBiomeTypeAt(tree.x, tree.z), from, now)
+    : [{ type: 'clear', startedAt: from, endsAt: now }];
+  for (const period of periods) {
+    const weather = getWeather(period.type);
+    const start = Math.max(from, period.startedAt);
+    if (tree.status === 'alive' && period.startedAt >= from) {
+      applyStormDamage(tree, weather, start);
+    }
+    // Seasons change growth rates, so step through them within each spell of weather
+    for (const season of getSeasonsBetween(start, Math.min(now, period.endsAt), seasonLength)) {
+      if (tree.status !== 'alive') break;
+      const segmentStart = Math.max(start, season.startedAt);
+      const segmentEnd = Math.min(now, period.endsAt, season.endsAt);
+      simulateAlive(tree, segmentStart, segmentEnd, plot, weather, season.season);
+      if (tree.status === 'alive') {
+        applyDiseaseDamage(tree, segmentStart, segmentEnd);
+      }
+    }
+  }
+
+  if (tree.status === 'withered' && now - (tree.witheredAt ?? from) >= WITHER_DURATION) {
+    tree.status = 'dead';
+  }
+
+  tree.lastSimulatedAt = now;
+  tree.growthStage = Math.floor(tree.growthProgress);
+
+  return {
+    stageChange: tree.growthStage === fromStage ? null : {
+      treeId: tree.id,
+      treeType: tree.type,
+      fromStage,
+      toStage: tree.growthStage
+    },
+    statusChange: tree.status === fromStatus ? null : {
+      treeId: tree.id,
+      treeType: tree.type,
+      fromStatus,
+      toStatus: tree.status
+    }
+  };
+}
+
+// Move every tree in the game state forward to `now`, returning what changed.
+// Infected trees on neighbouring players' plots can pass disease on to this player's trees.
+export function simulateGameState(
+  gameState: GameState,
+  now: number = Date.now(),
+  neighbourInfections: InfectedTree[] = [],
+  seasonLength: number = SEASON_LENGTH
+): SimulationResult {
+  const result: SimulationResult = { stageChanges: [], statusChanges: [] };
+  updateWeather(gameState, now);
+
+  // Trees grow according to the biome and soil of the plot they are planted on
+  const treePlots = new Map<string, LandPlot>();
+  for (const plot of gameState.currentBiome.landPlots) {
+    for (const treeId of plot.trees) {
+      treePlots.set(treeId, plot);
+    }
+  }
+
+  const infectedTrees = [...getInfectedTrees(gameState.trees), ...neighbourInfections];
+
+  for (const tree of gameState.trees) {
+    const { stageChange, statusChange } = simulateTree(
+      tree,
+      now,
+      treePlots.get(tree.id),
+      gameState.currentBiome,
+      infectedTrees,
+      seasonLength
+    );
+    if (stageChange) {
+      result.stageChanges.push(stageChange);
+    }
+    if (statusChange) {
+      result.statusChanges.push(statusChange);
+    }
+  }
+
+  return result;
+}
+
+// Watering brings a withered tree back; dead trees are past saving
+export function reviveTree(tree: Tree): boolean {
+  if (tree.status !== 'withered') return false;
+
+  tree.status = 'alive';
+  tree.health = REVIVE_HEALTH;
+  delete tree.witheredAt;
+  return true;
+}
@@ -0,0 +1,27 @@
+import { LandPlot } from '../../shared/types/api';
+
+// Soil configuration
+export const MAX_SOIL_NUTRIENTS = 100;
+const NUTRIENTS_PER_STAGE = 4; // Each growth stage a tree gains draws this much from its plot
+export const FERTILIZER_NUTRIENTS = 25; // Restored by one unit of fertilizer
+
+// 0.5x growth on exhausted soil up to 1.5x on perfect soil
+export function soilGrowthMultiplier(plot: LandPlot): number {
+  return 0.5 + plot.soilNutrients / MAX_SOIL_NUTRIENTS;
+}
+
+// Poor soil cuts harvests down to half, rich soil gives full yield
+export function soilYieldMultiplier(plot: LandPlot): number {
+  return 0.5 + 0.5 * (plot.soilNutrients / MAX_SOIL_NUTRIENTS);
+}
+
+export function depleteSoil(plot: LandPlot, stagesGrown: number): void {
+  plot.soilNutrients = Math.max(0, plot.soilNutrients - stagesGrown * NUTRIENTS_PER_STAGE);
+}
+
+// Returns how many nutrients were actually restored
+export function fertilizePlot(plot: LandPlot, units: number = 1): number {
+  const before = plot.soilNutrients;
+  plot.soilNutrients = Math.min(MAX_SOIL_NUTRIENTS, before + units * FERTILIZER_NUTRIENTS);
+  return plot.soilNutrients - before;
+}
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Biome, GameState, LandPlot, Player } from '../../shared/types/api';
+import { createPlayerStats } from '../../shared/data/achievements';
+import { createSeedInventory } from '../../shared/data/species';
+import { getBiomeTypeAt, getTerrainHeight } from '../../shared/data/world';
+import { ConflictError, getGameState, getGameStateWithNeighbours, getPlotsNear, saveBiomeSettings, saveGameState } from './storage';
+import { fakeRedis } from './testing/redis';
+
+vi.mock('@devvit/web/server', async () => ({ redis: (await import('./testing/redis')).fakeRedis }));
+
+const NOW = 1700000000000;
+const BIOME: Biome = {
+  id: 'test_world',
+  name: 'Test Forest',
+  type: 'forest',
+  maxPlayers: 200,
+  landPlots: [],
+  environment: { skyColor: '#87CEEB', groundColor: '#90EE90', fogColor: '#87CEEB', fogDensity: 0.1 },
+  weather: { type: 'clear', startedAt: 0, endsAt: 0 }
+};
+
+beforeEach(async () => {
+  fakeRedis.flushAll();
+  await saveBiomeSettings(BIOME);
+});
+
+function createPlot(ownerId: string, x: number, z: number): LandPlot {
+  return {
+    id: `land_${ownerId}_${x}_${z}`,
+    x,
+    z,
+    ownerId,
+    biomeType: getBiomeTypeAt(x, z),
+    trees: [],
+    purchasedAt: NOW,
+    price: 0,
+    soilNutrients: 100
+  };
+}
+
+// A new player standing on a plot of their own
+function createGameState(biome: Biome, playerId: string, x: number, z: number): GameState {
+  const plot = createPlot(playerId, x, z);
+  const player: Player = {
+    id: playerId,
+    username: playerId,
+    avatar: '🌳',
+    level: 1,
+    experience: 0,
+    coins: 200,
+    redditGold: 0,
+    achievements: [],
+    stats: createPlayerStats(),
+    landPlots: [plot.id],
+    position: { x, y: getTerrainHeight(x, z), z },
+    lastMovedAt: NOW,
+    lastActive: NOW,
+    premiumFeatures: { speedBoost: false, doubleXP: false, instantGrowth: false }
+  };
+  return {
+    player,
+    currentBiome: { ...biome, landPlots: [plot] },
+    trees: [],
+    resources: { seeds: createSeedInventory({ oak: 3 }), seedTraits: {}, water: 10 },
+    inventory: [],
+    lastPlayed: NOW
+  };
+}
+
+describe('getGameStateWithNeighbours', () => {
+  it('loads the plots around the player along with their own, so a resync keeps neighbours', async () => {
+    const neighbour = createGameState(BIOME, 'acorn_alex', 15, 20);
+    const faraway = createGameState(BIOME, 'pine_pat', 900, 1900);
+    const player = createGameState(BIOME, 'sapling_sam', 5, 20);
+    for (const gameState of [neighbour, faraway, player]) {
+      await saveGameState(gameState);
+    }
+
+    const resynced = await getGameStateWithNeighbours('sapling_sam', BIOME.id);
+
+    expect(resynced?.currentBiome.landPlots.map(plot => plot.ownerId).sort()).toEqual(['acorn_alex', 'sapling_sam']);
+  });
+
+  it('finds nothing for a player who never played', async () => {
+    expect(await getGameStateWithNeighbours('nobody', BIOME.id)).toBeNull();
+  });
+});
+
+describe('saveGameState', () => {
+  it('lets only one of two players buying the same land at once have it', async () => {
+    await saveGameState(createGameState(BIOME, 'acorn_alex', 5, 20));
+    await saveGameState(createGameState(BIOME, 'sapling_sam', 45, 20));
+
+    // Both load before either saves, so both see the land as free
+    const [first, second] = await Promise.all([
+      getGameStateWithNeighbours('acorn_alex', BIOME.id),
+      getGameStateWithNeighbours('sapling_sam', BIOME.id)
+    ]);
+    if (!first || !second) throw new Error('Expected both game states to load');
+    for (const gameState of [first, second]) {
+      const plot = createPlot(gameState.player.id, 25, 20);
+      gameState.currentBiome.landPlots.push(plot);
+      gameState.player.landPlots.push(plot.id);
+      gameState.player.coins -= 100;
+    }
+
+    await saveGameState(first);
+    await expect(saveGameState(second)).rejects.toThrow(ConflictError);
+
+    const owners = (await getPlotsNear(BIOME.id, 25, 20)).filter(plot => plot.x === 25).map(plot => plot.ownerId);
+    expect(owners).toEqual(['acorn_alex']);
+    expect((await getGameState('sapling_sam', BIOME.id))?.player.coins).toBe(200);
+  });
+
+  it('still lets neighbours buy land next to each other at once', async () => {
+    await saveGameState(createGameState(BIOME, 'acorn_alex', 5, 20));
+    await saveGameState(createGameState(BIOME, 'sapling_sam', 45, 20));
+
+    const [first, second] = await Promise.all([
+      getGameState('acorn_alex', BIOME.id),
+      getGameState('sapling_sam', BIOME.id)
+    ]);
+    if (!first || !second) throw new Error('Expected both game states to load');
+    first.currentBiome.landPlots.push(createPlot('acorn_alex', 5, 40));
+    second.currentBiome.landPlots.push(createPlot('sapling_sam', 45, 40));
+
+    await saveGameState(first);
+    await expect(saveGameState(second)).resolves.toBeUndefined();
+  });
+});
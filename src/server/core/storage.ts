@@ -0,0 +1,530 @@
+import { redis } from '@devvit/web/server';
+import { Biome, ChatMessage, GameState, GameStateDelta, InfectedTree, LandPlot, Player, Tree } from '../../shared/types/api';
+import { getAreaId, getAreaIdsAround } from '../../shared/data/world';
+import { diffGameState, diffTreeAppearances, GameStateSnapshot, snapshotGameState } from './delta';
+import { getInfectedTrees } from './disease';
+import { migrateRecord, RecordKind, serializeRecord, StoredBiome, StoredGameState, StoredRecords } from './migrations';
+
+// Every entity lives under its own key so that writers only touch what they change, and whatever other players
+// need to find is indexed by the area of the world it is in (see data/world) so that readers only load what is near:
+//   player:{playerId}                        Player
+//   gameState:{playerId}                     Resources, inventory and bookkeeping (StoredGameState)
+//   trees:{playerId}                         Hash of treeId -> Tree
+//   plot:{plotId}                            LandPlot
+//   biome:{biomeId}                          Biome settings, without plots
+//   biome:{biomeId}:plotGrid                 Hash of "gridX,gridZ" -> playerId for starting plot claims
+//   biome:{biomeId}:plotClaims               Hash of playerId -> "gridX,gridZ", the cell each player claimed
+//   biome:{biomeId}:plotCursor               Counter of grid cells handed out, in scan order
+//   biome:{biomeId}:players                  Sorted set of player IDs, scored by when they were last active
+//   biome:{biomeId}:area:{areaId}:plots      Hash of plotId -> ownerId for the plots in an area
+//   biome:{biomeId}:area:{areaId}:players    Sorted set of the player IDs last seen in an area, scored like players
+//   infections:{biomeId}:{areaId}            Hash of treeId -> InfectedTree for an area, shared with neighbours
+//   chat:{biomeId}                           Sorted set of the biome's latest ChatMessages, scored by when they were sent
+// Records are upgraded to the current schema as they are read, see core/migrations.
+
+// Shapes and keys from before the split that still need moving out into their own keys
+type InlineBiome = StoredBiome & { landPlots?: LandPlot[]; players?: Player[] };
+type InlineGameState = StoredGameState & { trees?: Tree[] };
+const legacyPlotsKey = (biomeId: string): string => `biome:${biomeId}:plots`; // Hash of every plot in the biome
+const legacyInfectionsKey = (biomeId: string): string => `infections:${biomeId}`; // Hash of every infection
+
+// What each loaded game state looked like in redis, so that saving it can spot changes made in between and only
+// update the indexes that moved, and what it looked like when first loaded, so that the changes can be sent to the client
+type LoadedGameState = {
+  version: number;
+  treeIds: string[];
+  plotIds: string[]; // Own plots stored under their own keys, and so already filed under their area
+  infections: InfectedTree[]; // Own infected trees as published to neighbours
+  areaId: string | null; // Area the player is filed under
+  outdated: boolean;
+  baseVersion: number;
+  snapshot: GameStateSnapshot | null;
+};
+const loadedGameStates = new WeakMap<GameState, LoadedGameState>();
+
+// Thrown when another request saved the same player's game first; the request can be retried from the start
+export class ConflictError extends Error {
+  constructor(playerId: string) {
+    super(`Game state for ${playerId} was changed by another request`);
+    this.name = 'ConflictError';
+  }
+}
+
+const playerKey = (playerId: string): string => `player:${playerId}`;
+const gameStateKey = (playerId: string): string => `gameState:${playerId}`;
+const treesKey = (playerId: string): string => `trees:${playerId}`;
+const plotKey = (plotId: string): string => `plot:${plotId}`;
+const biomeKey = (biomeId: string): string => `biome:${biomeId}`;
+const plotGridKey = (biomeId: string): string => `biome:${biomeId}:plotGrid`;
+const plotClaimsKey = (biomeId: string): string => `biome:${biomeId}:plotClaims`;
+const plotCursorKey = (biomeId: string): string => `biome:${biomeId}:plotCursor`;
+const biomePlayersKey = (biomeId: string): string => `biome:${biomeId}:players`;
+const areaPlotsKey = (biomeId: string, areaId: string): string => `biome:${biomeId}:area:${areaId}:plots`;
+const areaPlayersKey = (biomeId: string, areaId: string): string => `biome:${biomeId}:area:${areaId}:players`;
+const infectionsKey = (biomeId: string, areaId: string): string => `infections:${biomeId}:${areaId}`;
+const chatKey = (biomeId: string): string => `chat:${biomeId}`;
+
+const CHAT_HISTORY_LIMIT = 100; // Messages kept per biome
+
+type Transaction = Awaited<ReturnType<typeof redis.watch>>;
+
+// Unlike redis itself, Devvit doesn't answer a transaction aborted by a watched key changing with null: the exec
+// fails, or comes back without results. Either way nothing was written. Every transaction here queues at least one
+// command, so an empty answer always means an abort.
+async function execWatched(txn: Transaction): Promise<boolean> {
+  try {
+    return (await txn.exec()).length > 0;
+  } catch (error) {
+    console.warn('Transaction aborted:', error);
+    return false;
+  }
+}
+
+function parseRecords<K extends RecordKind>(kind: K, entries: Record<string, string> | undefined): StoredRecords[K][] {
+  return Object.values(entries ?? {}).map(json => migrateRecord(kind, json).record);
+}
+
+function toEntries<K extends 'tree' | 'landPlot'>(kind: K, entities: StoredRecords[K][]): Record<string, string> {
+  return Object.fromEntries(entities.map(entity => [entity.id, serializeRecord(kind, entity)]));
+}
+
+// Group things with a position by the area they are in
+function groupByArea<T extends { x: number; z: number }>(items: T[]): Map<string, T[]> {
+  const areas = new Map<string, T[]>();
+  for (const item of items) {
+    const areaId = getAreaId(item.x, item.z);
+    areas.set(areaId, [...(areas.get(areaId) ?? []), item]);
+  }
+  return areas;
+}
+
+// Players
+
+export async function getPlayer(playerId: string): Promise<Player | null> {
+  const playerJson = await redis.get(playerKey(playerId));
+  return playerJson ? migrateRecord('player', playerJson).record : null;
+}
+
+export async function getPlayers(playerIds: string[]): Promise<Player[]> {
+  if (playerIds.length === 0) return [];
+  const playerJsons = await redis.mGet(playerIds.map(playerKey));
+  return playerJsons.flatMap(json => json ? [migrateRecord('player', json).record] : []);
+}
+
+export async function addBiomePlayer(biomeId: string, player: Player): Promise<void> {
+  await redis.zAdd(biomePlayersKey(biomeId), { member: player.id, score: player.lastActive });
+}
+
+async function getBiomePlayerIds(biomeId: string): Promise<string[]> {
+  return (await redis.zRange(biomePlayersKey(biomeId), 0, -1, { by: 'rank' })).map(entry => entry.member);
+}
+
+// Players filed under the areas around a position, wherever exactly they are now
+export async function getPlayersNear(biomeId: string, x: number, z: number): Promise<Player[]> {
+  const areas = await Promise.all(getAreaIdsAround(x, z).map(areaId =>
+    redis.zRange(areaPlayersKey(biomeId, areaId), 0, -1, { by: 'rank' })
+  ));
+  return getPlayers([...new Set(areas.flat().map(entry => entry.member))]);
+}
+
+async function filePlayerUnderArea(biomeId: string, player: Player): Promise<void> {
+  const areaId = getAreaId(player.position.x, player.position.z);
+  await redis.zAdd(areaPlayersKey(biomeId, areaId), { member: player.id, score: player.lastActive });
+}
+
+// Biomes and land plots
+
+async function loadPlots(plotIds: string[]): Promise<{ record: LandPlot; migrated: boolean }[]> {
+  if (plotIds.length === 0) return [];
+  const plotJsons = await redis.mGet(plotIds.map(plotKey));
+  return plotJsons.flatMap(json => json ? [migrateRecord('landPlot', json)] : []);
+}
+
+// Store plots under their own keys and file them under their areas. Plots already stored are newer than
+// copies kept inline or in the old shared hash, so those are left as they are.
+async function addPlots(biomeId: string, plots: LandPlot[]): Promise<void> {
+  for (const plot of plots) {
+    await redis.set(plotKey(plot.id), serializeRecord('landPlot', plot), { nx: true });
+  }
+  for (const [areaId, areaPlots] of groupByArea(plots)) {
+    await redis.hSet(areaPlotsKey(biomeId, areaId), Object.fromEntries(areaPlots.map(plot => [plot.id, plot.ownerId])));
+  }
+}
+
+// Plots filed under the given areas
+async function getPlotsInAreas(biomeId: string, areaIds: string[]): Promise<LandPlot[]> {
+  const areas = await Promise.all(areaIds.map(areaId => redis.hKeys(areaPlotsKey(biomeId, areaId))));
+  return (await loadPlots([...new Set(areas.flat())])).map(plot => plot.record);
+}
+
+// Plots filed under the areas around a position
+export async function getPlotsNear(biomeId: string, x: number, z: number): Promise<LandPlot[]> {
+  return getPlotsInAreas(biomeId, getAreaIdsAround(x, z));
+}
+
+// Land closer than PLOT_SPACING to a plot along both axes is part of it, and can't be bought
+const PLOT_SPACING = 10;
+
+export function findPlotAt(plots: LandPlot[], x: number, z: number): LandPlot | undefined {
+  return plots.find(plot => Math.abs(plot.x - x) < PLOT_SPACING && Math.abs(plot.z - z) < PLOT_SPACING);
+}
+
+// Add the plots around a position to a game state for checking and showing neighbours. Only the player's own
+// plots are ever saved back, and any not loaded before count as changes to send to the client.
+export async function addPlotsNear(gameState: GameState, x: number, z: number): Promise<void> {
+  const landPlots = gameState.currentBiome.landPlots;
+  const known = new Set(landPlots.map(plot => plot.id));
+  landPlots.push(...(await getPlotsNear(gameState.currentBiome.id, x, z)).filter(plot => !known.has(plot.id)));
+}
+
+// A cell of the grid starting plots are laid out on
+export type PlotCell = { gridX: number; gridZ: number };
+
+// Hand out the next grid cell index; concurrent callers never get the same one
+export async function nextPlotCell(biomeId: string): Promise<number> {
+  return (await redis.incrBy(plotCursorKey(biomeId), 1)) - 1;
+}
+
+// The cell a player claimed for their starting plot, kept even if joining failed after the claim so that
+// trying again gets the same cell rather than taking another
+export async function getClaimedPlotCell(biomeId: string, playerId: string): Promise<PlotCell | null> {
+  const cell = await redis.hGet(plotClaimsKey(biomeId), playerId);
+  if (!cell) return null;
+  const [gridX, gridZ] = cell.split(',').map(Number);
+  return gridX === undefined || gridZ === undefined ? null : { gridX, gridZ };
+}
+
+// Claim a starting plot cell for a player unless it is taken or the biome already has maxClaims of them. The
+// count, the check and the claim happen in one transaction, so concurrent joins can't overfill the biome; if
+// another claim lands in between, this throws a ConflictError for the request to be retried.
+// Only claims made here count towards maxClaims. Starting plots given out before claims were stored have no
+// entry in the plot grid, so a biome with players from then can hold that many more than maxClaims.
+export async function claimPlotCell(
+  biomeId: string,
+  cell: PlotCell,
+  playerId: string,
+  maxClaims: number
+): Promise<'claimed' | 'taken' | 'full'> {
+  const field = `${cell.gridX},${cell.gridZ}`;
+  const txn = await redis.watch(plotGridKey(biomeId));
+  const [claims, owner] = await Promise.all([redis.hLen(plotGridKey(biomeId)), redis.hGet(plotGridKey(biomeId), field)]);
+  if (claims >= maxClaims || owner !== undefined) {
+    await txn.unwatch();
+    return owner !== undefined ? 'taken' : 'full';
+  }
+  await txn.multi();
+  await txn.hSet(plotGridKey(biomeId), { [field]: playerId });
+  await txn.hSet(plotClaimsKey(biomeId), { [playerId]: field });
+  if (!(await execWatched(txn))) {
+    throw new ConflictError(playerId);
+  }
+  return 'claimed';
+}
+
+// Biomes saved before the split kept every plot and player inline; move them out into their own keys
+async function migrateBiome(biomeId: string, legacy: InlineBiome): Promise<void> {
+  await addPlots(biomeId, (legacy.landPlots ?? []).map(plot => migrateRecord('landPlot', JSON.stringify(plot)).record));
+  for (const player of legacy.players ?? []) {
+    await addBiomePlayer(biomeId, player);
+  }
+  const { landPlots: _landPlots, players: _players, ...settings } = legacy;
+  await redis.set(biomeKey(biomeId), serializeRecord('biome', settings));
+}
+
+// A biome's settings, with no plots loaded; see addPlotsNear
+export async function getBiome(biomeId: string): Promise<Biome | null> {
+  const biomeJson = await redis.get(biomeKey(biomeId));
+  if (!biomeJson) return null;
+
+  const { landPlots: legacyPlots, players: legacyPlayers, ...stored } = migrateRecord('biome', biomeJson).record as InlineBiome;
+  if (legacyPlots || legacyPlayers) {
+    await migrateBiome(biomeId, { ...stored, landPlots: legacyPlots ?? [], players: legacyPlayers ?? [] });
+  }
+  return { ...stored, landPlots: [] };
+}
+
+// Only the biome's own settings; plots are saved with their owners' game states
+export async function saveBiomeSettings(biome: Biome): Promise<void> {
+  const { landPlots: _landPlots, ...settings } = biome;
+  await redis.set(biomeKey(biome.id), serializeRecord('biome', settings));
+}
+
+// Game states
+
+// Load a player's game with only what they own: their progress, trees and plots
+export async function getGameState(playerId: string, defaultBiomeId: string): Promise<GameState | null> {
+  const stateJson = await redis.get(gameStateKey(playerId));
+  if (!stateJson) return null;
+
+  const state = migrateRecord('gameState', stateJson);
+  const stored = state.record as InlineGameState;
+  const [playerJson, treeEntries, biome] = await Promise.all([
+    redis.get(playerKey(playerId)),
+    redis.hGetAll(treesKey(playerId)),
+    getBiome(stored.biomeId ?? defaultBiomeId)
+  ]);
+  if (!playerJson || !biome) return null;
+
+  const player = migrateRecord('player', playerJson);
+  const trees = Object.values(treeEntries ?? {}).map(json => migrateRecord('tree', json));
+  // Trees used to live inside the game state itself
+  const legacyTrees = trees.length > 0 ? [] : (stored.trees ?? []).map(tree => migrateRecord('tree', JSON.stringify(tree)));
+
+  const plots = await loadPlots(player.record.landPlots);
+  // Plots the old shared hash still holds, until they are saved under their own keys
+  const missingPlotIds = player.record.landPlots.filter(plotId => !plots.some(plot => plot.record.id === plotId));
+  const legacyPlots = missingPlotIds.length > 0
+    ? (await redis.hMGet(legacyPlotsKey(biome.id), missingPlotIds)).flatMap(json => json ? [migrateRecord('landPlot', json)] : [])
+    : [];
+
+  const gameState: GameState = {
+    player: player.record,
+    currentBiome: { ...biome, landPlots: [...plots, ...legacyPlots].map(plot => plot.record) },
+    trees: [...trees, ...legacyTrees].map(tree => tree.record),
+    resources: stored.resources,
+    inventory: stored.inventory,
+    lastPlayed: stored.lastPlayed
+  };
+  const { position } = player.record;
+  loadedGameStates.set(gameState, {
+    version: stored.version,
+    treeIds: trees.map(tree => tree.record.id),
+    plotIds: plots.map(plot => plot.record.id),
+    infections: getInfectedTrees(gameState.trees),
+    areaId: getAreaId(position.x, position.z),
+    outdated: state.migrated || player.migrated || trees.some(tree => tree.migrated) || legacyTrees.length > 0 ||
+      plots.some(plot => plot.migrated) || legacyPlots.length > 0,
+    baseVersion: stored.version,
+    snapshot: snapshotGameState(gameState)
+  });
+  return gameState;
+}
+
+// Load a player's game as the client shows it: what they own and the plots around them, as init sends it
+export async function getGameStateWithNeighbours(playerId: string, defaultBiomeId: string): Promise<GameState | null> {
+  const gameState = await getGameState(playerId, defaultBiomeId);
+  if (gameState) {
+    const { x, z } = gameState.player.position;
+    await addPlotsNear(gameState, x, z);
+  }
+  return gameState;
+}
+
+// Write back everything a player owns in one transaction: their progress, player record, trees and plots,
+// along with the infections and area indexes that follow from them.
+// Throws a ConflictError, writing nothing, if the game state was saved by someone else since it was loaded, or if
+// anything else the save writes changes before it is done, or if a plot it adds overlaps one someone else got first.
+// The other area indexes are left unwatched: every save rewrites its own entries in them, and watching them would
+// make neighbours' saves collide. Plot indexes are only watched around new plots, so that only purchases collide.
+export async function saveGameState(gameState: GameState, played: boolean = true): Promise<void> {
+  const { player, currentBiome } = gameState;
+  const loaded = loadedGameStates.get(gameState) ?? {
+    version: 0, treeIds: [], plotIds: [], infections: [], areaId: null, outdated: false, baseVersion: 0, snapshot: null
+  };
+  const infections = getInfectionChanges(gameState, loaded.infections);
+  const ownPlots = currentBiome.landPlots.filter(plot => plot.ownerId === player.id);
+  const infectionAreaIds = [...new Set([...infections.cured, ...infections.changed].map(tree => getAreaId(tree.x, tree.z)))];
+  const newPlots = ownPlots.filter(plot => !loaded.plotIds.includes(plot.id));
+  const newPlotAreaIds = [...new Set(newPlots.flatMap(plot => getAreaIdsAround(plot.x, plot.z)))];
+
+  const txn = await redis.watch(
+    gameStateKey(player.id),
+    playerKey(player.id),
+    treesKey(player.id),
+    ...ownPlots.map(plot => plotKey(plot.id)),
+    ...infectionAreaIds.map(areaId => infectionsKey(currentBiome.id, areaId)),
+    ...newPlotAreaIds.map(areaId => areaPlotsKey(currentBiome.id, areaId))
+  );
+  const currentJson = await redis.get(gameStateKey(player.id));
+  const currentVersion = currentJson ? (JSON.parse(currentJson) as Partial<StoredGameState>).version ?? 0 : 0;
+  if (currentVersion !== loaded.version) {
+    await txn.unwatch();
+    throw new ConflictError(player.id);
+  }
+  // Two players buying the same land at once both checked it was free; whoever saves second starts over
+  const othersPlots = (await getPlotsInAreas(currentBiome.id, newPlotAreaIds)).filter(plot => plot.ownerId !== player.id);
+  if (newPlots.some(plot => findPlotAt(othersPlots, plot.x, plot.z))) {
+    await txn.unwatch();
+    throw new ConflictError(player.id);
+  }
+
+  if (played) {
+    gameState.lastPlayed = Date.now();
+  }
+  const stored: StoredGameState = {
+    biomeId: currentBiome.id,
+    resources: gameState.resources,
+    inventory: gameState.inventory,
+    lastPlayed: gameState.lastPlayed,
+    version: loaded.version + 1
+  };
+  const treeIds = gameState.trees.map(tree => tree.id);
+  const removedTreeIds = loaded.treeIds.filter(treeId => !treeIds.includes(treeId));
+  const areaId = getAreaId(player.position.x, player.position.z);
+
+  await txn.multi();
+  await txn.set(gameStateKey(player.id), serializeRecord('gameState', stored));
+  await txn.set(playerKey(player.id), serializeRecord('player', player));
+  if (gameState.trees.length > 0) {
+    await txn.hSet(treesKey(player.id), toEntries('tree', gameState.trees));
+  }
+  if (removedTreeIds.length > 0) {
+    await txn.hDel(treesKey(player.id), removedTreeIds);
+  }
+  if (ownPlots.length > 0) {
+    await txn.mSet(Object.fromEntries(ownPlots.map(plot => [plotKey(plot.id), serializeRecord('landPlot', plot)])));
+  }
+  for (const [plotAreaId, plots] of groupByArea(newPlots)) {
+    await txn.hSet(areaPlotsKey(currentBiome.id, plotAreaId), Object.fromEntries(plots.map(plot => [plot.id, player.id])));
+  }
+  for (const [infectionAreaId, cured] of groupByArea(infections.cured)) {
+    await txn.hDel(infectionsKey(currentBiome.id, infectionAreaId), cured.map(tree => tree.treeId));
+  }
+  for (const [infectionAreaId, infected] of groupByArea(infections.changed)) {
+    await txn.hSet(infectionsKey(currentBiome.id, infectionAreaId), Object.fromEntries(
+      infected.map(tree => [tree.treeId, serializeRecord('infectedTree', tree)])
+    ));
+  }
+  await txn.zAdd(areaPlayersKey(currentBiome.id, areaId), { member: player.id, score: player.lastActive });
+  if (loaded.areaId && loaded.areaId !== areaId) {
+    await txn.zRem(areaPlayersKey(currentBiome.id, loaded.areaId), [player.id]);
+  }
+
+  if (!(await execWatched(txn))) {
+    throw new ConflictError(player.id);
+  }
+  loadedGameStates.set(gameState, {
+    ...loaded,
+    version: stored.version,
+    treeIds,
+    plotIds: ownPlots.map(plot => plot.id),
+    infections: infections.infected,
+    areaId,
+    outdated: false
+  });
+}
+
+// The stored version a game state was last loaded or saved at
+export function getGameStateVersion(gameState: GameState): number {
+  return loadedGameStates.get(gameState)?.version ?? 0;
+}
+
+// Everything changed since the game state was loaded, from the version it was loaded at to the one it was last saved at
+export function getGameStateChanges(gameState: GameState): GameStateDelta {
+  const loaded = loadedGameStates.get(gameState);
+  if (!loaded?.snapshot) {
+    throw new Error(`Game state for ${gameState.player.id} was never loaded, so has no changes to send`);
+  }
+  return diffGameState(loaded.snapshot, gameState, { baseVersion: loaded.baseVersion, version: loaded.version });
+}
+
+// Trees that look different to other players since the game state was loaded
+export function getVisibleTreeChanges(gameState: GameState): { trees: Tree[]; removedTrees: Tree[] } {
+  const snapshot = loadedGameStates.get(gameState)?.snapshot;
+  return snapshot ? diffTreeAppearances(snapshot, gameState) : { trees: gameState.trees, removedTrees: [] };
+}
+
+// Infections
+
+// Infected trees are published by area so that neighbouring players' trees can catch them. Disease only spreads
+// between nearby trees, and players are shown the infections around them, so only the areas around the player
+// and their trees are read.
+export async function getNeighbourInfections(gameState: GameState): Promise<InfectedTree[]> {
+  const { player, trees, currentBiome } = gameState;
+  const areaIds = new Set([player.position, ...trees].flatMap(({ x, z }) => getAreaIdsAround(x, z)));
+  const areas = await Promise.all([...areaIds].map(areaId => redis.hGetAll(infectionsKey(currentBiome.id, areaId))));
+  return areas
+    .flatMap(entries => parseRecords('infectedTree', entries))
+    .filter(infected => infected.ownerId !== player.id);
+}
+
+// This player's infected trees now, the ones to publish because they are new or changed, and the ones to withdraw
+// because they were cured, cleared or harvested since the last save
+function getInfectionChanges(
+  gameState: GameState,
+  published: InfectedTree[]
+): { infected: InfectedTree[]; changed: InfectedTree[]; cured: InfectedTree[] } {
+  const infected = getInfectedTrees(gameState.trees);
+  const before = new Map(published.map(tree => [tree.treeId, JSON.stringify(tree)]));
+  const changed = infected.filter(tree => before.get(tree.treeId) !== JSON.stringify(tree));
+  const infectedIds = new Set(infected.map(tree => tree.treeId));
+  const cured = published.filter(tree => !infectedIds.has(tree.treeId));
+  return { infected, changed, cured };
+}
+
+// Chat
+
+// Keep a message in the biome's history, forgetting the oldest beyond CHAT_HISTORY_LIMIT
+export async function addChatMessage(biomeId: string, chatMessage: ChatMessage): Promise<void> {
+  await redis.zAdd(chatKey(biomeId), { member: serializeRecord('chatMessage', chatMessage), score: chatMessage.timestamp });
+  await redis.zRemRangeByRank(chatKey(biomeId), 0, -CHAT_HISTORY_LIMIT - 1);
+}
+
+// The biome's latest messages, oldest first
+export async function getRecentChatMessages(biomeId: string, limit: number): Promise<ChatMessage[]> {
+  const entries = await redis.zRange(chatKey(biomeId), -limit, -1, { by: 'rank' });
+  return entries.map(entry => migrateRecord('chatMessage', entry.member).record);
+}
+
+// Batch migration
+
+// Rewrite the biome's settings at the current schema, leaving them alone if someone else writes meanwhile
+async function migrateBiomeSettings(biomeId: string): Promise<number> {
+  const txn = await redis.watch(biomeKey(biomeId));
+  const biomeJson = await redis.get(biomeKey(biomeId));
+  const biome = biomeJson ? migrateRecord('biome', biomeJson) : null;
+  if (!biome?.migrated) {
+    await txn.unwatch();
+    return 0;
+  }
+  await txn.multi();
+  await txn.set(biomeKey(biomeId), serializeRecord('biome', biome.record));
+  return (await execWatched(txn)) ? 1 : 0;
+}
+
+// Plots used to share one hash per biome; give each its own key and file it under its area
+async function migrateLegacyPlots(biomeId: string): Promise<number> {
+  const plots = parseRecords('landPlot', await redis.hGetAll(legacyPlotsKey(biomeId)));
+  if (plots.length === 0) return 0;
+  await addPlots(biomeId, plots);
+  await redis.del(legacyPlotsKey(biomeId));
+  return plots.length;
+}
+
+// Publish a player's infected trees and file them under their area. Infections follow from the trees, so they are
+// republished from there rather than copied out of the old shared hash, which may hold ones cured since.
+async function indexGameState(gameState: GameState): Promise<void> {
+  const biomeId = gameState.currentBiome.id;
+  await filePlayerUnderArea(biomeId, gameState.player);
+  for (const [areaId, infected] of groupByArea(getInfectedTrees(gameState.trees))) {
+    await redis.hSet(infectionsKey(biomeId, areaId), Object.fromEntries(
+      infected.map(tree => [tree.treeId, serializeRecord('infectedTree', tree)])
+    ));
+  }
+}
+
+// Bring every record stored for a biome and its players up to the current schema and into the area indexes,
+// returning how many keys changed. Anything written concurrently was written at the current schema already,
+// so losing those races is fine.
+export async function migrateBiomeRecords(biomeId: string): Promise<number> {
+  if (!(await getBiome(biomeId))) return 0; // Also moves plots and players out of biomes from before the split
+
+  let migrated = await migrateBiomeSettings(biomeId);
+  migrated += await migrateLegacyPlots(biomeId);
+
+  for (const playerId of await getBiomePlayerIds(biomeId)) {
+    const gameState = await getGameState(playerId, biomeId);
+    if (!gameState) continue;
+    await indexGameState(gameState);
+    if (!loadedGameStates.get(gameState)?.outdated) continue;
+    try {
+      // Saving rewrites the player, their trees and plots along with the game state, without counting as play
+      await saveGameState(gameState, false);
+      migrated++;
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+    }
+  }
+  await redis.del(legacyInfectionsKey(biomeId));
+  return migrated;
+}
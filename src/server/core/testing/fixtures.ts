@@ -0,0 +1,6 @@
+import { readFileSync } from 'node:fs';
+
+// Fixtures are records as the game wrote them before schema versioning, kept in ../fixtures
+export function readFixture(name: string): string {
+  return readFileSync(new URL(`../fixtures/${name}`, import.meta.url), 'utf8');
+}
@@ -0,0 +1,205 @@
+import type { redis } from '@devvit/web/server';
+
+// An in-memory stand-in for Devvit redis, covering the commands storage uses, for tests.
+// Transactions behave as Devvit's do: a watched key written by anyone else before exec aborts the whole
+// transaction, which comes back with no results.
+
+type Redis = typeof redis;
+type Transaction = Awaited<ReturnType<Redis['watch']>>;
+type Value = string | Map<string, string> | Map<string, number>;
+
+export type FakeRedis = Pick<
+  Redis,
+  | 'get' | 'set' | 'del' | 'incrBy' | 'mGet' | 'mSet'
+  | 'hGet' | 'hMGet' | 'hSet' | 'hSetNX' | 'hGetAll' | 'hDel' | 'hKeys' | 'hLen'
+  | 'zAdd' | 'zRange' | 'zRem' | 'zRemRangeByRank'
+> & {
+  watch(...keys: string[]): Promise<Transaction>;
+  flushAll(): void; // Forget everything, between tests
+};
+
+// Resolve negative redis indexes against a length, as ranges do
+function toRange(length: number, start: number, stop: number): [number, number] {
+  const from = start < 0 ? Math.max(length + start, 0) : start;
+  const to = stop < 0 ? length + stop : Math.min(stop, length - 1);
+  return [from, to];
+}
+
+export function createFakeRedis(): FakeRedis {
+  const values = new Map<string, Value>();
+  const writes = new Map<string, number>(); // Times each key was written, for watching
+
+  const touch = (key: string): void => {
+    writes.set(key, (writes.get(key) ?? 0) + 1);
+  };
+  const getString = (key: string): string | undefined => {
+    const value = values.get(key);
+    return typeof value === 'string' ? value : undefined;
+  };
+  const getHash = (key: string): Map<string, string> => {
+    const value = values.get(key);
+    return value instanceof Map ? (value as Map<string, string>) : new Map<string, string>();
+  };
+  const getSortedSet = (key: string): Map<string, number> => {
+    const value = values.get(key);
+    return value instanceof Map ? (value as Map<string, number>) : new Map<string, number>();
+  };
+  const sortedMembers = (key: string): { member: string; score: number }[] =>
+    [...getSortedSet(key)]
+      .map(([member, score]) => ({ member, score }))
+      .sort((a, b) => a.score - b.score || a.member.localeCompare(b.member));
+
+  const client: Omit<FakeRedis, 'watch' | 'flushAll'> = {
+    async get(key) {
+      return getString(key);
+    },
+    async set(key, value, options) {
+      if (options?.nx && values.has(key)) return '';
+      values.set(key, value);
+      touch(key);
+      return 'OK';
+    },
+    async del(...keys) {
+      keys.forEach(key => {
+        values.delete(key);
+        touch(key);
+      });
+    },
+    async incrBy(key, value) {
+      const next = Number(getString(key) ?? 0) + value;
+      values.set(key, String(next));
+      touch(key);
+      return next;
+    },
+    async mGet(keys) {
+      return keys.map(key => getString(key) ?? null);
+    },
+    async mSet(keyValues) {
+      Object.entries(keyValues).forEach(([key, value]) => {
+        values.set(key, value);
+        touch(key);
+      });
+    },
+    async hGet(key, field) {
+      return getHash(key).get(field);
+    },
+    async hMGet(key, fields) {
+      const hash = getHash(key);
+      return fields.map(field => hash.get(field) ?? null);
+    },
+    async hSet(key, fieldValues) {
+      const hash = getHash(key);
+      const added = Object.keys(fieldValues).filter(field => !hash.has(field)).length;
+      Object.entries(fieldValues).forEach(([field, value]) => hash.set(field, value));
+      values.set(key, hash);
+      touch(key);
+      return added;
+    },
+    async hSetNX(key, field, value) {
+      const hash = getHash(key);
+      if (hash.has(field)) return 0;
+      hash.set(field, value);
+      values.set(key, hash);
+      touch(key);
+      return 1;
+    },
+    async hGetAll(key) {
+      return Object.fromEntries(getHash(key));
+    },
+    async hDel(key, fields) {
+      const hash = getHash(key);
+      const removed = fields.filter(field => hash.delete(field)).length;
+      touch(key);
+      return removed;
+    },
+    async hKeys(key) {
+      return [...getHash(key).keys()];
+    },
+    async hLen(key) {
+      return getHash(key).size;
+    },
+    async zAdd(key, ...members) {
+      const set = getSortedSet(key);
+      const added = members.filter(({ member }) => !set.has(member)).length;
+      members.forEach(({ member, score }) => set.set(member, score));
+      values.set(key, set);
+      touch(key);
+      return added;
+    },
+    async zRange(key, start, stop) {
+      const members = sortedMembers(key);
+      const [from, to] = toRange(members.length, Number(start), Number(stop));
+      return members.slice(from, to + 1);
+    },
+    async zRem(key, members) {
+      const set = getSortedSet(key);
+      const removed = members.filter(member => set.delete(member)).length;
+      touch(key);
+      return removed;
+    },
+    async zRemRangeByRank(key, start, stop) {
+      const set = getSortedSet(key);
+      const members = sortedMembers(key);
+      const [from, to] = toRange(members.length, start, stop);
+      const removed = members.slice(from, to + 1);
+      removed.forEach(({ member }) => set.delete(member));
+      touch(key);
+      return removed.length;
+    }
+  };
+
+  async function watch(...keys: string[]): Promise<Transaction> {
+    const watched = new Map(keys.map(key => [key, writes.get(key) ?? 0]));
+    const queued: (() => Promise<unknown>)[] = [];
+    let queueing = false;
+
+    // Commands run straight away until multi, and are queued for exec after it
+    const command = <A extends unknown[]>(run: (...args: A) => Promise<unknown>) =>
+      async (...args: A): Promise<Transaction> => {
+        if (queueing) {
+          queued.push(() => run(...args));
+        } else {
+          await run(...args);
+        }
+        return txn;
+      };
+
+    const txn = {
+      async multi() {
+        queueing = true;
+      },
+      async exec() {
+        const aborted = [...watched].some(([key, count]) => (writes.get(key) ?? 0) !== count);
+        watched.clear();
+        if (aborted) return [];
+        const results = [];
+        for (const run of queued) {
+          results.push(await run());
+        }
+        return results;
+      },
+      async unwatch() {
+        watched.clear();
+        return txn;
+      },
+      set: command(client.set),
+      del: command(client.del),
+      mSet: command(client.mSet),
+      hSet: command(client.hSet),
+      hDel: command(client.hDel),
+      zAdd: command(client.zAdd),
+      zRem: command(client.zRem)
+    } as unknown as Transaction;
+    return txn;
+  }
+
+  function flushAll(): void {
+    values.clear();
+    writes.clear();
+  }
+
+  return { ...client, watch, flushAll };
+}
+
+// The one fake that tests mock @devvit/web/server's redis with
+export const fakeRedis = createFakeRedis();
@@ -0,0 +1,11 @@
+import { GameState } from '../../shared/types/api';
+import { getWeatherAt } from '../../shared/data/weather';
+import { getBiomeTypeAt } from '../../shared/data/world';
+
+// Bring the weather where the player stands up to date, returning whether it changed
+export function updateWeather(gameState: GameState, now: number = Date.now()): boolean {
+  const { currentBiome: biome, player } = gameState;
+  const previous = biome.weather.type;
+  biome.weather = getWeatherAt(biome.id, getBiomeTypeAt(player.position.x, player.position.z), now);
+  return biome.weather.type !== previous;
+}
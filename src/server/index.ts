@@ -1,25 +1,85 @@
 import express from 'express';
-import { 
-  InitResponse, 
-  PlantTreeResponse, 
-  WaterTreeResponse, 
-  HarvestTreeResponse, 
-  BuySeedsResponse,
+import {
+  InitResponse,
+  PlantTreeResponse,
   BuyLandResponse,
   MovePlayerResponse,
   GetNearbyPlayersResponse,
+  GetAchievementsResponse,
+  WaterTreeResponse,
+  HarvestTreeResponse,
+  ClearTreeResponse,
+  FertilizeResponse,
+  TreatTreeResponse,
+  BuyItemResponse,
+  CraftResponse,
+  BuySeedsResponse,
+  BuyWaterResponse,
+  SendChatMessageResponse,
+  GetChatMessagesResponse,
+  GameStateResponse,
   GameState,
+  GameStateDelta,
   Tree,
-  TreeType,
+  SeedInventory,
   Player,
   LandPlot,
   Biome,
   BiomeType,
-  Achievement,
-  AchievementCategory
+  InfectedTree,
+  OfflineSummary,
+  ChatMessage
 } from '../shared/types/api';
-import { redis, reddit, createServer, context, getServerPort } from '@devvit/web/server';
+import { createSeedInventory, getSpecies } from '../shared/data/species';
+import { maxPlotsForLevel } from '../shared/data/progression';
+import { createPlayerStats, getAchievementProgress } from '../shared/data/achievements';
+import { getSeasonAt } from '../shared/data/seasons';
+import { getItem } from '../shared/data/items';
+import { getDisease } from '../shared/data/diseases';
+import { getRecipe } from '../shared/data/recipes';
+import { getAreaId, getBiomeTypeAt, getTerrainHeight, WORLD_HEIGHT, WORLD_WIDTH } from '../shared/data/world';
+import { createServer, context, getServerPort } from '@devvit/web/server';
 import { createPost } from './core/post';
+import { authenticate } from './core/auth';
+import { handle, RouteError } from './core/handlers';
+import { ROUTES } from '../shared/api/routes';
+import { consumeItems, grantItems } from './core/inventory';
+import { grantExperience } from './core/progression';
+import { updateWeather } from './core/weather';
+import { cureTree, diseaseYieldMultiplier } from './core/disease';
+import { recordBiomeVisit, recordPlayersMet, recordStat, recordVariety, unlockAchievements } from './core/achievements';
+import { breedSeeds, storeSeedTraits, takeSeedTraits } from './core/genetics';
+import { craft } from './core/crafting';
+import { simulateOffline } from './core/offline';
+import { getSeasonLength } from './core/seasons';
+import { applyMove, requireWithinReach } from './core/movement';
+import { publishChatMessage, publishPlayerMoved, publishPlotPurchased, publishTreeChanges } from './core/realtime';
+import {
+  addBiomePlayer,
+  addChatMessage,
+  addPlotsNear,
+  claimPlotCell,
+  findPlotAt,
+  getBiome,
+  getClaimedPlotCell,
+  getGameState,
+  getGameStateChanges,
+  getGameStateVersion,
+  getGameStateWithNeighbours,
+  getNeighbourInfections,
+  getVisibleTreeChanges,
+  getPlayer,
+  getPlayersNear,
+  getPlotsNear,
+  getRecentChatMessages,
+  migrateBiomeRecords,
+  nextPlotCell,
+  PlotCell,
+  saveBiomeSettings,
+  saveGameState
+} from './core/storage';
+import { fertilizePlot, soilYieldMultiplier, MAX_SOIL_NUTRIENTS } from './core/soil';
+import { simulateGameState, reviveTree, MAX_GROWTH_STAGE, SimulationResult } from './core/simulation';
 
 const app = express();
 
@@ -32,12 +92,14 @@ app.use(express.text());
 
 const router = express.Router();
 
+// Every API route acts as the player signed in to Reddit
+router.use('/api', authenticate);
+
 // World Configuration
-const WORLD_WIDTH = 2000; // Total world width in tiles
-const WORLD_HEIGHT = 4000; // Total world height in tiles
 const PLOT_WIDTH = 10; // Individual plot width
 const PLOT_HEIGHT = 20; // Individual plot height
 const MAX_PLAYERS = 200; // Maximum number of players who can claim plots
+const WORLD_BIOME_ID = 'massive_world'; // The single shared world every player joins
 const TILE_SIZE = 1; // Size of each tile in Three.js units
 
 // Calculate grid dimensions
@@ -48,83 +110,16 @@ const TOTAL_PLOTS = GRID_WIDTH * GRID_HEIGHT; // 40,000 total plots available
 console.log(`World initialized: ${WORLD_WIDTH}x${WORLD_HEIGHT} tiles, ${GRID_WIDTH}x${GRID_HEIGHT} plots, ${TOTAL_PLOTS} total plots`);
 
 // Game configuration
-const TREE_TYPES: TreeType[] = ['oak', 'pine', 'cherry', 'maple', 'cedar'];
-const GROWTH_TIME = 30000; // 30 seconds per growth stage
 const MAX_TREES_PER_PLOT = 5;
-const SEED_COST = 10;
 const WATER_COST = 5;
 const LAND_PLOT_COST = 100;
+const STARTING_SEEDS: Partial<SeedInventory> = { oak: 3, pine: 2 };
+const CLEAR_SEED_RETURN = 1; // Withered trees can still give back a seed when cleared
+const NEARBY_INFECTION_RADIUS = 100; // How far away neighbours' infected trees show up for a player
+const CHAT_HISTORY = 20; // Messages sent to a player opening the chat
 const BIOME_SIZE = WORLD_WIDTH; // Use world width as biome size
 const MAX_PLAYERS_PER_BIOME = MAX_PLAYERS;
 
-// Achievement definitions
-const ACHIEVEMENTS: Record<string, Achievement> = {
-  first_tree: {
-    id: 'first_tree',
-    name: 'First Steps',
-    description: 'Plant your first tree',
-    icon: '🌱',
-    unlockedAt: 0,
-    category: 'planting'
-  },
-  tree_master: {
-    id: 'tree_master',
-    name: 'Tree Master',
-    description: 'Plant 50 trees',
-    icon: '🌳',
-    unlockedAt: 0,
-    category: 'planting'
-  },
-  harvester: {
-    id: 'harvester',
-    name: 'Harvester',
-    description: 'Harvest 25 trees',
-    icon: '🌾',
-    unlockedAt: 0,
-    category: 'harvesting'
-  },
-  landowner: {
-    id: 'landowner',
-    name: 'Landowner',
-    description: 'Own 5 land plots',
-    icon: '🏡',
-    unlockedAt: 0,
-    category: 'economy'
-  },
-  explorer: {
-    id: 'explorer',
-    name: 'Explorer',
-    description: 'Visit all biome types',
-    icon: '🗺️',
-    unlockedAt: 0,
-    category: 'exploration'
-  },
-  social_butterfly: {
-    id: 'social_butterfly',
-    name: 'Social Butterfly',
-    description: 'Meet 10 other players',
-    icon: '🦋',
-    unlockedAt: 0,
-    category: 'social'
-  },
-  millionaire: {
-    id: 'millionaire',
-    name: 'Millionaire',
-    description: 'Accumulate 10,000 coins',
-    icon: '💰',
-    unlockedAt: 0,
-    category: 'economy'
-  },
-  master_gardener: {
-    id: 'master_gardener',
-    name: 'Master Gardener',
-    description: 'Reach level 25',
-    icon: '👨‍🌾',
-    unlockedAt: 0,
-    category: 'mastery'
-  }
-};
-
 // Biome configurations
 const BIOME_CONFIGS: Record<BiomeType, any> = {
   forest: {
@@ -173,13 +168,11 @@ function generateLandPlotId(): string {
 }
 
 // Chat system
-let chatMessages: ChatMessage[] = [];
-
 function generateChatMessageId(): string {
   return `chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-async function addChatMessage(playerId: string, username: string, message: string, type: 'player' | 'system' = 'player'): Promise<ChatMessage> {
+async function postChatMessage(playerId: string, username: string, message: string, type: 'player' | 'system' = 'player'): Promise<ChatMessage> {
   const chatMessage: ChatMessage = {
     id: generateChatMessageId(),
     playerId,
@@ -189,48 +182,38 @@ async function addChatMessage(playerId: string, username: string, message: strin
     type
   };
   
-  chatMessages.push(chatMessage);
-  
-  // Keep only last 100 messages
-  if (chatMessages.length > 100) {
-    chatMessages = chatMessages.slice(-100);
-  }
-  
+  await addChatMessage(WORLD_BIOME_ID, chatMessage);
+  await publishChatMessage(WORLD_BIOME_ID, chatMessage);
   return chatMessage;
 }
 
-async function getRecentChatMessages(limit: number = 20): Promise<ChatMessage[]> {
-  return chatMessages.slice(-limit);
+// Grid allocation system (claims are stored per biome, see core/storage)
+function getPlotCell(index: number): PlotCell | null {
+  if (index >= TOTAL_PLOTS) {
+    return null; // No available plots
+  }
+  // Cells are handed out column by column, like a scan of the grid
+  return { gridX: Math.floor(index / GRID_HEIGHT), gridZ: index % GRID_HEIGHT };
 }
 
-// Grid allocation system
-const claimedPlots = new Set<string>(); // Track claimed plot coordinates
-
-function findAvailablePlot(): { gridX: number; gridZ: number } | null {
-  // Try to find an available 10x20 plot
-  for (let gridX = 0; gridX < GRID_WIDTH; gridX++) {
-    for (let gridZ = 0; gridZ < GRID_HEIGHT; gridZ++) {
-      const plotKey = `${gridX},${gridZ}`;
-      if (!claimedPlots.has(plotKey)) {
-        return { gridX, gridZ };
-      }
-    }
-  }
-  return null; // No available plots
+// Plots from before claims were stored, and bought ones, only show up among the plots themselves
+async function isPlotCellOccupied(biome: Biome, centerX: number, centerZ: number): Promise<boolean> {
+  return (await getPlotsNear(biome.id, centerX, centerZ)).some(plot => plot.x === centerX && plot.z === centerZ);
 }
 
-function claimPlot(gridX: number, gridZ: number): boolean {
-  const plotKey = `${gridX},${gridZ}`;
-  if (claimedPlots.has(plotKey)) {
-    return false; // Already claimed
-  }
-  
-  if (claimedPlots.size >= MAX_PLAYERS) {
-    return false; // World is full
+async function findAvailablePlot(biome: Biome, playerId: string): Promise<PlotCell | null> {
+  // Take cells from the shared cursor until one is actually free and ours
+  let cell = getPlotCell(await nextPlotCell(biome.id));
+  while (cell) {
+    const { centerX, centerZ } = getPlotWorldCoordinates(cell.gridX, cell.gridZ);
+    if (!(await isPlotCellOccupied(biome, centerX, centerZ))) {
+      const claim = await claimPlotCell(biome.id, cell, playerId, MAX_PLAYERS);
+      if (claim === 'claimed') return cell;
+      if (claim === 'full') return null;
+    }
+    cell = getPlotCell(await nextPlotCell(biome.id));
   }
-  
-  claimedPlots.add(plotKey);
-  return true;
+  return null;
 }
 
 function getPlotWorldCoordinates(gridX: number, gridZ: number): { 
@@ -251,27 +234,12 @@ function getPlotWorldCoordinates(gridX: number, gridZ: number): {
   return { startX, startZ, endX, endZ, centerX, centerZ };
 }
 
-function calculateTreeGrowth(tree: Tree): number {
-  const now = Date.now();
-  const timeSincePlanted = now - tree.plantedAt;
-  const timeSinceWatered = now - tree.lastWatered;
-  
-  // Trees grow faster when watered recently
-  const waterBonus = timeSinceWatered < 60000 ? 1.5 : 1; // 50% bonus if watered within 1 minute
-  
-  const growthStages = Math.floor((timeSincePlanted * waterBonus) / GROWTH_TIME);
-  return Math.min(growthStages, 5); // Max growth stage is 5
-}
-
-function calculateTreeHealth(tree: Tree): number {
-  const now = Date.now();
-  const timeSinceWatered = now - tree.lastWatered;
-  
-  // Health decreases over time if not watered
-  const hoursSinceWatered = timeSinceWatered / (1000 * 60 * 60);
-  const healthLoss = Math.max(0, hoursSinceWatered - 1) * 10; // Lose 10 health per hour after 1 hour
-  
-  return Math.max(0, 100 - healthLoss);
+// Free the plot slot a tree was occupying
+function removeTreeFromPlot(biome: Biome, treeId: string): void {
+  const landPlot = biome.landPlots.find(plot => plot.trees.includes(treeId));
+  if (landPlot) {
+    landPlot.trees = landPlot.trees.filter(id => id !== treeId);
+  }
 }
 
 function getDefaultPlayer(username: string): Player {
@@ -284,8 +252,10 @@ function getDefaultPlayer(username: string): Player {
     coins: 200, // More starting coins
     redditGold: 0, // Starting Reddit Gold
     achievements: [],
+    stats: createPlayerStats(),
     landPlots: [],
     position: { x: 0, y: 0, z: 0 },
+    lastMovedAt: Date.now(),
     lastActive: Date.now(),
     premiumFeatures: {
       speedBoost: false,
@@ -297,17 +267,18 @@ function getDefaultPlayer(username: string): Player {
 
 function getDefaultBiome(): Biome {
   return {
-    id: 'massive_world',
+    id: WORLD_BIOME_ID,
     name: 'The Eternal Forest',
     type: 'forest',
     maxPlayers: MAX_PLAYERS,
     landPlots: [], // Will be populated as players claim plots
-    players: [],
     environment: {
       skyColor: '#87CEEB',
       groundColor: '#90EE90',
-      fogColor: '#87CEEB'
-    }
+      fogColor: '#87CEEB',
+      fogDensity: 0.1
+    },
+    weather: { type: 'clear', startedAt: 0, endsAt: 0 } // Set per player, for where they stand
   };
 }
 
@@ -317,40 +288,36 @@ function getDefaultGameState(player: Player, biome: Biome): GameState {
     currentBiome: biome,
     trees: [],
     resources: {
-      seeds: 5,
-      water: 10,
-      fertilizer: 0,
-      coins: player.coins
+      seeds: createSeedInventory(STARTING_SEEDS),
+      seedTraits: {},
+      water: 10
     },
+    inventory: [],
     lastPlayed: Date.now()
   };
 }
 
-async function allocateStartingLand(player: Player, biome: Biome): Promise<void> {
-  const availablePlot = findAvailablePlot();
-  
+async function allocateStartingLand(player: Player, biome: Biome): Promise<LandPlot> {
+  // A player trying to join again after a failed attempt gets the cell they already claimed
+  const availablePlot = await getClaimedPlotCell(biome.id, player.id) ?? await findAvailablePlot(biome, player.id);
   if (!availablePlot) {
-    throw new Error('No available plots in the world');
+    throw new RouteError('rejected', 'The world is full, there is no land left for new players!');
   }
   
   const { gridX, gridZ } = availablePlot;
   const { startX, startZ, endX, endZ, centerX, centerZ } = getPlotWorldCoordinates(gridX, gridZ);
   
-  // Claim the plot
-  if (!claimPlot(gridX, gridZ)) {
-    throw new Error('Failed to claim plot');
-  }
-  
   // Create land plot
   const landPlot: LandPlot = {
     id: generateLandPlotId(),
     x: centerX,
     z: centerZ,
     ownerId: player.id,
-    biomeType: biome.type,
+    biomeType: getBiomeTypeAt(centerX, centerZ),
     trees: [],
     purchasedAt: Date.now(),
-    price: 0 // Free starting land
+    price: 0, // Free starting land
+    soilNutrients: MAX_SOIL_NUTRIENTS
   };
   
   // Add to biome and player
@@ -358,732 +325,832 @@ async function allocateStartingLand(player: Player, biome: Biome): Promise<void>
   player.landPlots.push(landPlot.id);
   
   // Set player starting position to center of their plot
-  player.position = { x: centerX, y: 0, z: centerZ };
+  player.position = { x: centerX, y: getTerrainHeight(centerX, centerZ), z: centerZ };
   
   console.log(`Allocated plot (${gridX},${gridZ}) to player ${player.username} at (${centerX}, ${centerZ})`);
+  return landPlot;
 }
 
-async function getPlayer(playerId: string): Promise<Player | null> {
-  const playerJson = await redis.get(`player:${playerId}`);
-  return playerJson ? JSON.parse(playerJson) : null;
+// The changes to send back from an action, with the ones other players can see shared live with those nearby
+async function shareChanges(gameState: GameState): Promise<GameStateDelta> {
+  const { trees, removedTrees } = getVisibleTreeChanges(gameState);
+  if (trees.length > 0 || removedTrees.length > 0) {
+    await publishTreeChanges(gameState.currentBiome.id, gameState.player.id, trees, removedTrees);
+  }
+  return getGameStateChanges(gameState);
 }
 
-async function savePlayer(player: Player): Promise<void> {
-  await redis.set(`player:${player.id}`, JSON.stringify(player));
+async function simulateWithNeighbours(gameState: GameState): Promise<SimulationResult> {
+  return simulateGameState(gameState, Date.now(), await getNeighbourInfections(gameState), await getSeasonLength());
 }
 
-async function getBiome(biomeId: string): Promise<Biome | null> {
-  const biomeJson = await redis.get(`biome:${biomeId}`);
-  return biomeJson ? JSON.parse(biomeJson) : null;
+function getInfectionsNear(infections: InfectedTree[], player: Player, radius: number = NEARBY_INFECTION_RADIUS): InfectedTree[] {
+  return infections.filter(infected =>
+    Math.hypot(infected.x - player.position.x, infected.z - player.position.z) <= radius
+  );
 }
 
-async function saveBiome(biome: Biome): Promise<void> {
-  await redis.set(`biome:${biome.id}`, JSON.stringify(biome));
+// Other players are loaded from their own records, never from copies held elsewhere
+async function getNearbyPlayers(player: Player, biome: Biome, radius: number = 20): Promise<Player[]> {
+  const { x, z } = player.position;
+  const others = (await getPlayersNear(biome.id, x, z)).filter(p => p.id !== player.id);
+  return others.filter(p => {
+    const distance = Math.sqrt(
+      Math.pow(p.position.x - player.position.x, 2) +
+      Math.pow(p.position.z - player.position.z, 2)
+    );
+    return distance <= radius;
+  });
 }
 
-async function getGameState(playerId: string): Promise<GameState | null> {
-  const stateJson = await redis.get(`gameState:${playerId}`);
-  return stateJson ? JSON.parse(stateJson) : null;
-}
+handle(router, ROUTES.init, async (_body, { playerId, postId }): Promise<InitResponse> => {
+  // Allow development mode without postId
+  if (!postId) {
+    console.log('Development mode: No postId found, using default');
+  }
 
-async function saveGameState(gameState: GameState): Promise<void> {
-  gameState.lastPlayed = Date.now();
-  await redis.set(`gameState:${gameState.player.id}`, JSON.stringify(gameState));
-}
+  const username = playerId;
+
+  // Returning players come with their biome; everyone else needs it loading, or creating for the first player
+  let gameState = await getGameState(username, WORLD_BIOME_ID);
+  let player = gameState?.player ?? await getPlayer(username);
+  let biome = gameState?.currentBiome ?? await getBiome(WORLD_BIOME_ID);
+  
+  if (!biome) {
+    biome = getDefaultBiome();
+    await saveBiomeSettings(biome);
+  }
+
+  let startingPlot: LandPlot | null = null;
+  if (!player) {
+    const newPlayer = getDefaultPlayer(username);
+    
+    // Allocate starting land for new player
+    startingPlot = await allocateStartingLand(newPlayer, biome);
+    player = newPlayer;
+  } else {
+    // Update last active
+    player.lastActive = Date.now();
+  }
+  await addBiomePlayer(biome.id, player);
+
+  const seasonLength = await getSeasonLength();
+  let simulation: SimulationResult = { stageChanges: [], statusChanges: [] };
+  let offlineSummary: OfflineSummary | null = null;
+  if (!gameState) {
+    gameState = getDefaultGameState(player, biome);
+    updateWeather(gameState);
+    await addPlotsNear(gameState, player.position.x, player.position.z);
+  } else {
+    // Neighbours' plots show up in the world and in the summary of what happened while away
+    await addPlotsNear(gameState, player.position.x, player.position.z);
+    ({ simulation, summary: offlineSummary } = simulateOffline(
+      gameState,
+      Date.now(),
+      await getNeighbourInfections(gameState),
+      seasonLength
+    ));
+  }
+
+  const nearbyPlayers = await getNearbyPlayers(player, biome);
+
+  recordPlayersMet(player, nearbyPlayers);
+  recordBiomeVisit(player, getBiomeTypeAt(player.position.x, player.position.z));
+  const newAchievements = unlockAchievements(player);
+  await saveGameState(gameState);
+  if (startingPlot) {
+    await publishPlotPurchased(biome.id, startingPlot);
+  }
+  const nearbyInfections = getInfectionsNear(await getNeighbourInfections(gameState), player);
+
+  return {
+    type: 'init',
+    postId: postId || 'dev_post',
+    gameState,
+    version: getGameStateVersion(gameState),
+    username,
+    nearbyPlayers,
+    stageChanges: simulation.stageChanges,
+    statusChanges: simulation.statusChanges,
+    achievements: newAchievements,
+    achievementProgress: getAchievementProgress(player),
+    season: getSeasonAt(Date.now(), seasonLength),
+    nearbyInfections,
+    offlineSummary,
+  };
+});
+
+handle(router, ROUTES.plantTree, async (body, { playerId, postId }): Promise<PlantTreeResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
+  }
+
+  const { treeType, x, z } = body;
+
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
+  }
+
+  const { stageChanges, statusChanges } = await simulateWithNeighbours(gameState);
+
+  const player = gameState.player;
+  const biome = gameState.currentBiome;
+  requireWithinReach(player, x, z);
+
+  // Check if player owns land at this location
+  const landPlot = biome.landPlots.find(plot => 
+    Math.abs(plot.x - x) < 5 && Math.abs(plot.z - z) < 5 && plot.ownerId === player.id
+  );
+
+  if (!landPlot) {
+    throw new RouteError('rejected', 'You can only plant trees on your own land!');
+  }
+
+  if (landPlot.trees.length >= MAX_TREES_PER_PLOT) {
+    throw new RouteError('rejected', 'This land plot is full!');
+  }
+
+  const species = getSpecies(treeType);
+  if (player.level < species.unlockLevel) {
+    throw new RouteError('rejected', `${species.name} trees unlock at level ${species.unlockLevel}!`);
+  }
+
+  if (gameState.resources.seeds[treeType] <= 0) {
+    throw new RouteError('rejected', `You don't have any ${species.name} seeds!`);
+  }
 
-function checkAchievements(player: Player, action: string, count?: number): Achievement[] {
-  const newAchievements: Achievement[] = [];
   const now = Date.now();
+  const newTree: Tree = {
+    id: generateTreeId(),
+    type: treeType,
+    x,
+    y: 0,
+    z,
+    growthStage: 0,
+    growthProgress: 0,
+    plantedAt: now,
+    lastWatered: now,
+    lastSimulatedAt: now,
+    health: 100,
+    status: 'alive',
+    traits: takeSeedTraits(gameState, treeType),
+    ownerId: player.id
+  };
+
+  gameState.trees.push(newTree);
+  landPlot.trees.push(newTree.id);
+  gameState.resources.seeds[treeType] -= 1;
+  const levelUp = grantExperience(player, 10);
+
+  // Check for achievements
+  recordStat(player, 'treesPlanted');
+  recordVariety(player, treeType, newTree.traits.colorVariant);
+  const newAchievements = unlockAchievements(player);
+
+  await saveGameState(gameState);
+
+  return {
+    type: 'plant_tree',
+    postId,
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    message: `Planted a ${species.name} tree!`,
+    achievements: newAchievements,
+    levelUp
+  };
+});
 
-  // Check various achievement conditions
-  if (action === 'plant_tree' && !player.achievements.find(a => a.id === 'first_tree')) {
-    newAchievements.push({ ...ACHIEVEMENTS.first_tree, unlockedAt: now });
+handle(router, ROUTES.buyLand, async (body, { playerId, postId }): Promise<BuyLandResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
   }
 
-  if (action === 'plant_tree' && count && count >= 50 && !player.achievements.find(a => a.id === 'tree_master')) {
-    newAchievements.push({ ...ACHIEVEMENTS.tree_master, unlockedAt: now });
+  const { x, z } = body;
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
   }
 
-  if (action === 'harvest_tree' && count && count >= 25 && !player.achievements.find(a => a.id === 'harvester')) {
-    newAchievements.push({ ...ACHIEVEMENTS.harvester, unlockedAt: now });
+  const { stageChanges, statusChanges } = await simulateWithNeighbours(gameState);
+
+  const player = gameState.player;
+  const biome = gameState.currentBiome;
+
+  // Check if land is already owned
+  await addPlotsNear(gameState, x, z);
+  const existingPlot = findPlotAt(biome.landPlots, x, z);
+
+  if (existingPlot) {
+    throw new RouteError('rejected', 'This land is already owned!');
   }
 
-  if (action === 'buy_land' && player.landPlots.length >= 5 && !player.achievements.find(a => a.id === 'landowner')) {
-    newAchievements.push({ ...ACHIEVEMENTS.landowner, unlockedAt: now });
+  const plotLimit = maxPlotsForLevel(player.level);
+  if (player.landPlots.length >= plotLimit) {
+    throw new RouteError('rejected', `You can own ${plotLimit} plots at level ${player.level}. Level up to buy more!`);
   }
 
-  if (player.coins >= 10000 && !player.achievements.find(a => a.id === 'millionaire')) {
-    newAchievements.push({ ...ACHIEVEMENTS.millionaire, unlockedAt: now });
+  if (player.coins < LAND_PLOT_COST) {
+    throw new RouteError('rejected', 'Not enough coins!');
   }
 
-  if (player.level >= 25 && !player.achievements.find(a => a.id === 'master_gardener')) {
-    newAchievements.push({ ...ACHIEVEMENTS.master_gardener, unlockedAt: now });
+  const newLandPlot: LandPlot = {
+    id: generateLandPlotId(),
+    x,
+    z,
+    ownerId: player.id,
+    biomeType: getBiomeTypeAt(x, z),
+    trees: [],
+    purchasedAt: Date.now(),
+    price: LAND_PLOT_COST,
+    soilNutrients: MAX_SOIL_NUTRIENTS
+  };
+
+  biome.landPlots.push(newLandPlot);
+  player.landPlots.push(newLandPlot.id);
+  player.coins -= LAND_PLOT_COST;
+
+  // Check for achievements
+  const newAchievements = unlockAchievements(player);
+
+  await saveGameState(gameState);
+  await publishPlotPurchased(biome.id, newLandPlot);
+
+  return {
+    type: 'buy_land',
+    postId,
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    message: `Purchased land plot for ${LAND_PLOT_COST} coins!`,
+    landPlot: newLandPlot,
+    achievements: newAchievements
+  };
+});
+
+handle(router, ROUTES.movePlayer, async (body, { playerId, postId }): Promise<MovePlayerResponse> => {
+  // Handle development mode without postId
+  if (!postId) {
+    console.log('Move player request in development mode - no postId available');
   }
 
-  return newAchievements;
-}
+  const { x, z } = body;
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
+  }
 
-function getNearbyPlayers(player: Player, biome: Biome, radius: number = 20): Player[] {
-  return biome.players.filter(p => {
-    if (p.id === player.id) return false;
-    const distance = Math.sqrt(
-      Math.pow(p.position.x - player.position.x, 2) +
-      Math.pow(p.position.z - player.position.z, 2)
-    );
-    return distance <= radius;
-  });
-}
+  const neighbourInfections = await getNeighbourInfections(gameState);
+  const now = Date.now();
+  const { stageChanges, statusChanges } = simulateGameState(gameState, now, neighbourInfections, await getSeasonLength());
 
-router.get<{ postId: string }, InitResponse | { status: string; message: string }>(
-  '/api/init',
-  async (_req, res): Promise<void> => {
-    const { postId } = context;
+  const player = gameState.player;
+  const biome = gameState.currentBiome;
 
-    // Allow development mode without postId
-    if (!postId) {
-      console.log('Development mode: No postId found, using default');
-    }
+  // The server decides where the player ends up; y always follows the ground
+  const previousAreaId = getAreaId(player.position.x, player.position.z);
+  const correction = applyMove(player, x, z, now);
 
-    try {
-      let username = await reddit.getCurrentUsername();
-      
-      // Fallback for development mode when no Reddit context
-      if (!username) {
-        console.log('No Reddit username found, using development mode');
-        username = 'dev_player';
-      }
-
-      // Try to get existing player
-      let player = await getPlayer(username);
-      let biome = await getBiome('massive_world');
-      
-      if (!biome) {
-        biome = getDefaultBiome();
-        await saveBiome(biome);
-      }
-
-      if (!player) {
-        player = getDefaultPlayer(username);
-        biome.players.push(player);
-        
-        // Allocate starting land for new player
-        await allocateStartingLand(player, biome);
-        
-        await savePlayer(player);
-        await saveBiome(biome);
-      } else {
-        // Update last active
-        player.lastActive = Date.now();
-        await savePlayer(player);
-      }
-
-      let gameState = await getGameState(player.id);
-      if (!gameState) {
-        gameState = getDefaultGameState(player, biome);
-        await saveGameState(gameState);
-      } else {
-        // Update player and biome references
-        gameState.player = player;
-        gameState.currentBiome = biome;
-        await saveGameState(gameState);
-      }
-
-      const nearbyPlayers = getNearbyPlayers(player, biome);
-
-      res.json({
-        type: 'init',
-        postId: postId || 'dev_post',
-        gameState,
-        username,
-        nearbyPlayers,
-      });
-    } catch (error) {
-      console.error(`API Init Error for post ${postId}:`, error);
-      let errorMessage = 'Unknown error during initialization';
-      if (error instanceof Error) {
-        errorMessage = `Initialization failed: ${error.message}`;
-      }
-      res.status(400).json({ status: 'error', message: errorMessage });
-    }
+  // Entering another area brings the plots around it into view
+  const { position } = player;
+  if (getAreaId(position.x, position.z) !== previousAreaId) {
+    await addPlotsNear(gameState, position.x, position.z);
   }
-);
-
-router.post<{ postId: string }, PlantTreeResponse | { status: string; message: string }, { treeType: TreeType; x: number; z: number }>(
-  '/api/plant-tree',
-  async (req, res): Promise<void> => {
-    const { postId } = context;
-    if (!postId) {
-      res.status(400).json({
-        status: 'error',
-        message: 'postId is required',
-      });
-      return;
-    }
 
-    try {
-      const { treeType, x, z } = req.body;
-      const gameState = await getGameState(req.body.playerId || '');
-      
-      if (!gameState) {
-        res.status(404).json({
-          status: 'error',
-          message: 'Game state not found'
-        });
-        return;
-      }
-
-      const player = gameState.player;
-      const biome = gameState.currentBiome;
-
-      // Check if player owns land at this location
-      const landPlot = biome.landPlots.find(plot => 
-        Math.abs(plot.x - x) < 5 && Math.abs(plot.z - z) < 5 && plot.ownerId === player.id
-      );
-
-      if (!landPlot) {
-        res.json({
-          type: 'plant_tree',
-          postId,
-          gameState,
-          success: false,
-          message: 'You can only plant trees on your own land!'
-        });
-        return;
-      }
-
-      if (landPlot.trees.length >= MAX_TREES_PER_PLOT) {
-        res.json({
-          type: 'plant_tree',
-          postId,
-          gameState,
-          success: false,
-          message: 'This land plot is full!'
-        });
-        return;
-      }
-
-      if (gameState.resources.seeds <= 0) {
-        res.json({
-          type: 'plant_tree',
-          postId,
-          gameState,
-          success: false,
-          message: 'Not enough seeds!'
-        });
-        return;
-      }
-
-      const newTree: Tree = {
-        id: generateTreeId(),
-        type: treeType,
-        x,
-        y: 0,
-        z,
-        growthStage: 0,
-        plantedAt: Date.now(),
-        lastWatered: Date.now(),
-        health: 100,
-        ownerId: player.id
-      };
-
-      gameState.trees.push(newTree);
-      landPlot.trees.push(newTree.id);
-      gameState.resources.seeds -= 1;
-      player.experience += 10;
-
-      // Check for achievements
-      const newAchievements = checkAchievements(player, 'plant_tree', gameState.trees.length);
-      player.achievements.push(...newAchievements);
-
-      await saveGameState(gameState);
-      await savePlayer(player);
-      await saveBiome(biome);
-
-      res.json({
-        type: 'plant_tree',
-        postId,
-        gameState,
-        success: true,
-        message: `Planted a ${treeType} tree!`,
-        achievements: newAchievements
-      });
-    } catch (error) {
-      console.error('Error planting tree:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to plant tree'
-      });
-    }
+  // Exploring and bumping into people count towards achievements
+  recordBiomeVisit(player, getBiomeTypeAt(position.x, position.z));
+  recordPlayersMet(player, await getNearbyPlayers(player, biome));
+  const newAchievements = unlockAchievements(player);
+
+  await saveGameState(gameState);
+  if (!correction) {
+    await publishPlayerMoved(biome.id, player);
   }
-);
-
-router.post<{ postId: string }, BuyLandResponse | { status: string; message: string }, { x: number; z: number }>(
-  '/api/buy-land',
-  async (req, res): Promise<void> => {
-    const { postId } = context;
-    if (!postId) {
-      res.status(400).json({
-        status: 'error',
-        message: 'postId is required',
-      });
-      return;
-    }
 
-    try {
-      const { x, z } = req.body;
-      const gameState = await getGameState(req.body.playerId || '');
-      
-      if (!gameState) {
-        res.status(404).json({
-          status: 'error',
-          message: 'Game state not found'
-        });
-        return;
-      }
-
-      const player = gameState.player;
-      const biome = gameState.currentBiome;
-
-      // Check if land is already owned
-      const existingPlot = biome.landPlots.find(plot => 
-        Math.abs(plot.x - x) < 10 && Math.abs(plot.z - z) < 10
-      );
-
-      if (existingPlot) {
-        res.json({
-          type: 'buy_land',
-          postId,
-          gameState,
-          success: false,
-          message: 'This land is already owned!'
-        });
-        return;
-      }
-
-      if (player.coins < LAND_PLOT_COST) {
-        res.json({
-          type: 'buy_land',
-          postId,
-          gameState,
-          success: false,
-          message: 'Not enough coins!'
-        });
-        return;
-      }
-
-      const newLandPlot: LandPlot = {
-        id: generateLandPlotId(),
-        x,
-        z,
-        ownerId: player.id,
-        biomeType: biome.type,
-        trees: [],
-        purchasedAt: Date.now(),
-        price: LAND_PLOT_COST
-      };
-
-      biome.landPlots.push(newLandPlot);
-      player.landPlots.push(newLandPlot.id);
-      player.coins -= LAND_PLOT_COST;
-      gameState.resources.coins = player.coins;
-
-      // Check for achievements
-      const newAchievements = checkAchievements(player, 'buy_land', player.landPlots.length);
-      player.achievements.push(...newAchievements);
-
-      await saveGameState(gameState);
-      await savePlayer(player);
-      await saveBiome(biome);
-
-      res.json({
-        type: 'buy_land',
-        postId,
-        gameState,
-        success: true,
-        message: `Purchased land plot for ${LAND_PLOT_COST} coins!`,
-        landPlot: newLandPlot,
-        achievements: newAchievements
-      });
-    } catch (error) {
-      console.error('Error buying land:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to buy land'
-      });
-    }
+  return {
+    type: 'move_player',
+    postId: postId || 'dev_post',
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    position,
+    correction,
+    achievements: newAchievements,
+    nearbyInfections: getInfectionsNear(neighbourInfections, player)
+  };
+});
+
+// The stored game state as it is, for clients whose copy has fallen out of step with the changes they were sent
+handle(router, ROUTES.gameState, async (_body, { playerId, postId }): Promise<GameStateResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
   }
-);
 
-router.post<{ postId: string }, MovePlayerResponse | { status: string; message: string }, { x: number; y: number; z: number }>(
-  '/api/move-player',
-  async (req, res): Promise<void> => {
-    const { postId } = context;
-    
-    // Handle development mode without postId
-    if (!postId) {
-      console.log('Move player request in development mode - no postId available');
-    }
+  // The client replaces its whole game state with this one, neighbours' plots included
+  const gameState = await getGameStateWithNeighbours(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
+  }
 
-    try {
-      const { x, y, z } = req.body;
-      const gameState = await getGameState(req.body.playerId || '');
-      
-      if (!gameState) {
-        res.status(404).json({
-          status: 'error',
-          message: 'Game state not found'
-        });
-        return;
-      }
-
-      const player = gameState.player;
-      const biome = gameState.currentBiome;
-
-      // Update player position
-      player.position = { x, y, z };
-      
-      // Update player in biome
-      const biomePlayerIndex = biome.players.findIndex(p => p.id === player.id);
-      if (biomePlayerIndex !== -1) {
-        biome.players[biomePlayerIndex] = player;
-      }
-
-      await saveGameState(gameState);
-      await savePlayer(player);
-      await saveBiome(biome);
-
-      res.json({
-        type: 'move_player',
-        postId: postId || 'dev_post',
-        gameState,
-        position: { x, y, z }
-      });
-    } catch (error) {
-      console.error('Error moving player:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to move player'
-      });
-    }
+  return {
+    type: 'game_state',
+    postId,
+    gameState,
+    version: getGameStateVersion(gameState)
+  };
+});
+
+handle(router, ROUTES.nearbyPlayers, async (_body, { playerId, postId }): Promise<GetNearbyPlayersResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
   }
-);
-
-router.get<{ postId: string }, GetNearbyPlayersResponse | { status: string; message: string }>(
-  '/api/nearby-players',
-  async (req, res): Promise<void> => {
-    const { postId } = context;
-    if (!postId) {
-      res.status(400).json({
-        status: 'error',
-        message: 'postId is required',
-      });
-      return;
-    }
 
-    try {
-      const playerId = req.query.playerId as string;
-      const gameState = await getGameState(playerId);
-      
-      if (!gameState) {
-        res.status(404).json({
-          status: 'error',
-          message: 'Game state not found'
-        });
-        return;
-      }
-
-      const nearbyPlayers = getNearbyPlayers(gameState.player, gameState.currentBiome);
-
-      res.json({
-        type: 'nearby_players',
-        postId,
-        players: nearbyPlayers
-      });
-    } catch (error) {
-      console.error('Error getting nearby players:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to get nearby players'
-      });
-    }
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
   }
-);
+
+  const nearbyPlayers = await getNearbyPlayers(gameState.player, gameState.currentBiome);
+
+  return {
+    type: 'nearby_players',
+    postId,
+    players: nearbyPlayers
+  };
+});
+
+handle(router, ROUTES.achievements, async (_body, { playerId, postId }): Promise<GetAchievementsResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
+  }
+
+  const player = await getPlayer(playerId);
+  
+  if (!player) {
+    throw new RouteError('not_found', 'Player not found');
+  }
+
+  return {
+    type: 'achievements',
+    postId,
+    achievements: player.achievements,
+    progress: getAchievementProgress(player)
+  };
+});
 
 // Keep existing endpoints but update them to work with new system
-router.post<{ postId: string }, WaterTreeResponse | { status: string; message: string }, { treeId: string }>(
-  '/api/water-tree',
-  async (req, res): Promise<void> => {
-    const { postId } = context;
-    if (!postId) {
-      res.status(400).json({
-        status: 'error',
-        message: 'postId is required',
-      });
-      return;
-    }
+handle(router, ROUTES.waterTree, async (body, { playerId, postId }): Promise<WaterTreeResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
+  }
 
-    try {
-      const { treeId } = req.body;
-      const gameState = await getGameState(req.body.playerId || '');
-      
-      if (!gameState) {
-        res.status(404).json({
-          status: 'error',
-          message: 'Game state not found'
-        });
-        return;
-      }
-
-      if (gameState.resources.water <= 0) {
-        res.json({
-          type: 'water_tree',
-          postId,
-          gameState,
-          success: false,
-          message: 'Not enough water!'
-        });
-        return;
-      }
-
-      const tree = gameState.trees.find(t => t.id === treeId);
-      if (!tree) {
-        res.json({
-          type: 'water_tree',
-          postId,
-          gameState,
-          success: false,
-          message: 'Tree not found!'
-        });
-        return;
-      }
-
-      tree.lastWatered = Date.now();
-      tree.health = Math.min(100, tree.health + 20);
-      gameState.resources.water -= 1;
-      gameState.player.experience += 5;
-
-      await saveGameState(gameState);
-
-      res.json({
-        type: 'water_tree',
-        postId,
-        gameState,
-        success: true,
-        message: `Watered ${tree.type} tree!`
-      });
-    } catch (error) {
-      console.error('Error watering tree:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to water tree'
-      });
-    }
+  const { treeId } = body;
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
   }
-);
-
-router.post<{ postId: string }, HarvestTreeResponse | { status: string; message: string }, { treeId: string }>(
-  '/api/harvest-tree',
-  async (req, res): Promise<void> => {
-    const { postId } = context;
-    if (!postId) {
-      res.status(400).json({
-        status: 'error',
-        message: 'postId is required',
-      });
-      return;
-    }
 
-    try {
-      const { treeId } = req.body;
-      const gameState = await getGameState(req.body.playerId || '');
-      
-      if (!gameState) {
-        res.status(404).json({
-          status: 'error',
-          message: 'Game state not found'
-        });
-        return;
-      }
-
-      const treeIndex = gameState.trees.findIndex(t => t.id === treeId);
-      if (treeIndex === -1) {
-        res.status(404).json({
-          status: 'error',
-          message: 'Tree not found!'
-        });
-        return;
-      }
-
-      const tree = gameState.trees[treeIndex];
-      if (tree.growthStage < 5) {
-        res.json({
-          type: 'harvest_tree',
-          postId,
-          gameState,
-          rewards: { coins: 0, seeds: 0, experience: 0 }
-        });
-        return;
-      }
-
-      // Calculate rewards based on tree type and health
-      const baseReward = { oak: 20, pine: 15, cherry: 25, maple: 18, cedar: 22 };
-      const coins = Math.floor(baseReward[tree.type] * (tree.health / 100));
-      const seeds = Math.floor(Math.random() * 3) + 1;
-      const experience = Math.floor(coins * 0.5);
-
-      gameState.player.coins += coins;
-      gameState.resources.coins = gameState.player.coins;
-      gameState.resources.seeds += seeds;
-      gameState.player.experience += experience;
-      gameState.trees.splice(treeIndex, 1);
-
-      // Check for achievements
-      const newAchievements = checkAchievements(gameState.player, 'harvest_tree', gameState.trees.length);
-      gameState.player.achievements.push(...newAchievements);
-
-      await saveGameState(gameState);
-      await savePlayer(gameState.player);
+  const { stageChanges, statusChanges } = await simulateWithNeighbours(gameState);
 
-    res.json({
-        type: 'harvest_tree',
-      postId,
-        gameState,
-        rewards: { coins, seeds, experience },
-        achievements: newAchievements
-      });
-    } catch (error) {
-      console.error('Error harvesting tree:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to harvest tree'
-      });
-    }
+  if (gameState.resources.water <= 0) {
+    throw new RouteError('rejected', 'Not enough water!');
   }
-);
-
-router.post<{ postId: string }, BuySeedsResponse | { status: string; message: string }, { treeType: TreeType; quantity: number }>(
-  '/api/buy-seeds',
-  async (req, res): Promise<void> => {
-    const { postId } = context;
-    if (!postId) {
-      res.status(400).json({
-        status: 'error',
-        message: 'postId is required',
-      });
-      return;
-    }
 
-    try {
-      const { treeType, quantity = 1 } = req.body;
-      const gameState = await getGameState(req.body.playerId || '');
-      
-      if (!gameState) {
-        res.status(404).json({
-          status: 'error',
-          message: 'Game state not found'
-        });
-        return;
-      }
-
-      const totalCost = SEED_COST * quantity;
-
-      if (gameState.player.coins < totalCost) {
-        res.json({
-          type: 'buy_seeds',
-          postId,
-          gameState,
-          success: false,
-          message: 'Not enough coins!'
-        });
-        return;
-      }
-
-      gameState.player.coins -= totalCost;
-      gameState.resources.coins = gameState.player.coins;
-      gameState.resources.seeds += quantity;
-
-      await saveGameState(gameState);
-      await savePlayer(gameState.player);
+  const tree = gameState.trees.find(t => t.id === treeId);
+  if (!tree) {
+    throw new RouteError('rejected', 'Tree not found!');
+  }
+  requireWithinReach(gameState.player, tree.x, tree.z);
 
-    res.json({
-        type: 'buy_seeds',
-      postId,
-        gameState,
-        success: true,
-        message: `Bought ${quantity} ${treeType} seeds!`
-      });
-    } catch (error) {
-      console.error('Error buying seeds:', error);
-      res.status(500).json({
-        status: 'error',
-        message: 'Failed to buy seeds'
-      });
-    }
+  if (tree.status === 'dead') {
+    throw new RouteError('rejected', `This ${tree.type} tree is dead. Clear it to free up the space.`);
   }
-);
 
-// Chat API endpoints
-router.post('/api/send-chat-message', async (req, res): Promise<void> => {
-  try {
-    const { postId, playerId, message }: SendChatMessageRequest = req.body;
+  const revived = reviveTree(tree);
+  tree.lastWatered = Date.now();
+  if (!revived) {
+    tree.health = Math.min(100, tree.health + 20);
+  }
+  gameState.resources.water -= 1;
+  const levelUp = grantExperience(gameState.player, 5);
+  const newAchievements = unlockAchievements(gameState.player);
 
-    if (!postId || !playerId || !message) {
-      res.status(400).json({
-        status: 'error',
-        message: 'Missing required fields'
-      });
-      return;
-    }
+  await saveGameState(gameState);
 
-    if (message.length > 200) {
-      res.status(400).json({
-        status: 'error',
-        message: 'Message too long (max 200 characters)'
-      });
-      return;
-    }
+  return {
+    type: 'water_tree',
+    postId,
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    message: revived ? `Revived your withered ${tree.type} tree!` : `Watered ${tree.type} tree!`,
+    achievements: newAchievements,
+    levelUp
+  };
+});
 
-    const player = await getPlayer(playerId);
-    if (!player) {
-      res.status(404).json({
-        status: 'error',
-        message: 'Player not found'
-      });
-      return;
-    }
+handle(router, ROUTES.harvestTree, async (body, { playerId, postId }): Promise<HarvestTreeResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
+  }
 
-    const chatMessage = await addChatMessage(playerId, player.username, message, 'player');
+  const { treeId } = body;
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
+  }
 
-    res.json({
-      success: true,
-      message: 'Message sent',
-      chatMessage
-    });
-  } catch (error) {
-    console.error('Error sending chat message:', error);
-    res.status(500).json({
-      status: 'error',
-      message: 'Failed to send message'
-    });
+  const { stageChanges, statusChanges } = await simulateWithNeighbours(gameState);
+
+  const treeIndex = gameState.trees.findIndex(t => t.id === treeId);
+  if (treeIndex === -1) {
+    throw new RouteError('not_found', 'Tree not found!');
   }
+
+  const tree = gameState.trees[treeIndex]!;
+  requireWithinReach(gameState.player, tree.x, tree.z);
+  if (tree.status !== 'alive' || tree.growthStage < MAX_GROWTH_STAGE) {
+    throw new RouteError('rejected', tree.status === 'alive' ? 'This tree is not ready to harvest yet!' : `This tree is ${tree.status} and can only be cleared!`);
+  }
+
+  // Calculate rewards based on tree type and health
+  const landPlot = gameState.currentBiome.landPlots.find(plot => plot.trees.includes(tree.id));
+  const soilMultiplier = landPlot ? soilYieldMultiplier(landPlot) : 1;
+  const yieldMultiplier = (tree.health / 100) * soilMultiplier * diseaseYieldMultiplier(tree) * tree.traits.yield;
+  const species = getSpecies(tree.type);
+  const coins = Math.floor(species.baseYield * yieldMultiplier);
+  const products = [{
+    itemId: species.product.itemId,
+    quantity: Math.max(1, Math.round(species.product.quantity * yieldMultiplier))
+  }];
+  const seeds = Math.floor(Math.random() * 3) + 1;
+  const experience = Math.floor(coins * 0.5);
+
+  // Seeds inherit from this tree, crossed with mature trees of the same species nearby
+  const seedTraits = breedSeeds(tree, gameState.trees, seeds);
+
+  gameState.player.coins += coins;
+  gameState.resources.seeds[tree.type] += seeds;
+  storeSeedTraits(gameState, tree.type, seedTraits);
+  // A full stack means the products are left behind rather than failing the harvest
+  const granted = grantItems(gameState.inventory, products);
+  const levelUp = grantExperience(gameState.player, experience);
+  gameState.trees.splice(treeIndex, 1);
+  removeTreeFromPlot(gameState.currentBiome, tree.id);
+
+  // Check for achievements
+  recordStat(gameState.player, 'treesHarvested');
+  recordStat(gameState.player, 'coinsEarned', coins);
+  const newAchievements = unlockAchievements(gameState.player);
+
+  await saveGameState(gameState);
+
+  return {
+    type: 'harvest_tree',
+    postId,
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    rewards: {
+      coins,
+      seeds,
+      seedType: tree.type,
+      seedTraits,
+      products: granted.success ? products : [],
+      experience
+    },
+    achievements: newAchievements,
+    levelUp
+  };
 });
 
-router.get('/api/chat-messages', async (req, res): Promise<void> => {
-  try {
-    const limit = parseInt(req.query.limit as string) || 20;
-    const messages = await getRecentChatMessages(limit);
+handle(router, ROUTES.clearTree, async (body, { playerId, postId }): Promise<ClearTreeResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
+  }
 
-    res.json({
-      success: true,
-      messages
-    });
-  } catch (error) {
-    console.error('Error getting chat messages:', error);
-    res.status(500).json({
-      status: 'error',
-      message: 'Failed to get messages'
-    });
+  const { treeId } = body;
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
+  }
+
+  const { stageChanges, statusChanges } = await simulateWithNeighbours(gameState);
+
+  const treeIndex = gameState.trees.findIndex(t => t.id === treeId);
+  if (treeIndex === -1) {
+    throw new RouteError('not_found', 'Tree not found!');
+  }
+
+  const tree = gameState.trees[treeIndex]!;
+  if (tree.status === 'alive') {
+    throw new RouteError('rejected', 'Only withered or dead trees can be cleared!');
+  }
+
+  // Bigger trees make more compost; withered trees haven't gone to seed yet
+  const fertilizer = 1 + Math.floor(tree.growthStage / 2);
+  const seeds = tree.status === 'withered' ? CLEAR_SEED_RETURN : 0;
+
+  const granted = grantItems(gameState.inventory, [{ itemId: 'fertilizer', quantity: fertilizer }]);
+  if (!granted.success) {
+    throw new RouteError('rejected', granted.message);
+  }
+
+  gameState.resources.seeds[tree.type] += seeds;
+  gameState.trees.splice(treeIndex, 1);
+  removeTreeFromPlot(gameState.currentBiome, tree.id);
+
+  await saveGameState(gameState);
+
+  return {
+    type: 'clear_tree',
+    postId,
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    message: `Cleared ${tree.status} ${tree.type} tree!`,
+    rewards: { fertilizer, seeds, seedType: tree.type }
+  };
+});
+
+handle(router, ROUTES.fertilize, async (body, { playerId, postId }): Promise<FertilizeResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
+  }
+
+  const { plotId } = body;
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
+  }
+
+  const { stageChanges, statusChanges } = await simulateWithNeighbours(gameState);
+
+  const landPlot = gameState.currentBiome.landPlots.find(plot => plot.id === plotId);
+  if (!landPlot || landPlot.ownerId !== gameState.player.id) {
+    throw new RouteError('rejected', 'You can only fertilize your own land!');
+  }
+
+  if (landPlot.soilNutrients >= MAX_SOIL_NUTRIENTS) {
+    throw new RouteError('rejected', 'This soil is already as rich as it gets!');
+  }
+
+  const consumed = consumeItems(gameState.inventory, [{ itemId: 'fertilizer', quantity: 1 }]);
+  if (!consumed.success) {
+    throw new RouteError('rejected', consumed.message);
+  }
+
+  fertilizePlot(landPlot);
+  const levelUp = grantExperience(gameState.player, 5);
+  const newAchievements = unlockAchievements(gameState.player);
+
+  await saveGameState(gameState);
+
+  return {
+    type: 'fertilize',
+    postId,
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    message: `Fertilized your land! Soil is now at ${Math.round(landPlot.soilNutrients)}%`,
+    soilNutrients: landPlot.soilNutrients,
+    achievements: newAchievements,
+    levelUp
+  };
+});
+
+handle(router, ROUTES.treatTree, async (body, { playerId, postId }): Promise<TreatTreeResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
+  }
+
+  const { treeId } = body;
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
+  }
+
+  const { stageChanges, statusChanges } = await simulateWithNeighbours(gameState);
+
+  const tree = gameState.trees.find(t => t.id === treeId);
+  if (!tree || !tree.infection) {
+    throw new RouteError('rejected', tree ? 'This tree is perfectly healthy!' : 'Tree not found!');
+  }
+
+  const consumed = consumeItems(gameState.inventory, [{ itemId: 'remedy', quantity: 1 }]);
+  if (!consumed.success) {
+    throw new RouteError('rejected', consumed.message);
+  }
+
+  const disease = getDisease(tree.infection.disease);
+  cureTree(tree);
+  const levelUp = grantExperience(gameState.player, 10);
+
+  await saveGameState(gameState);
+
+  return {
+    type: 'treat_tree',
+    postId,
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    message: `Cured your ${tree.type} tree of ${disease.name}!`,
+    levelUp
+  };
+});
+
+handle(router, ROUTES.buyItem, async (body, { playerId, postId }): Promise<BuyItemResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
+  }
+
+  const { itemId, quantity } = body;
+  const item = getItem(itemId);
+
+  if (item.price === undefined) {
+    throw new RouteError('invalid_request', `${itemId} is not for sale`);
   }
+
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
+  }
+
+  const { stageChanges, statusChanges } = await simulateWithNeighbours(gameState);
+
+  const totalCost = item.price * quantity;
+  if (gameState.player.coins < totalCost) {
+    throw new RouteError('rejected', 'Not enough coins!');
+  }
+
+  const granted = grantItems(gameState.inventory, [{ itemId, quantity }]);
+  if (!granted.success) {
+    throw new RouteError('rejected', granted.message);
+  }
+
+  gameState.player.coins -= totalCost;
+
+  await saveGameState(gameState);
+
+  return {
+    type: 'buy_item',
+    postId,
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    message: `Bought ${quantity} ${item.name}!`
+  };
+});
+
+handle(router, ROUTES.craft, async (body, { playerId, postId }): Promise<CraftResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
+  }
+
+  const { recipeId, quantity } = body;
+
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
+  }
+
+  const { stageChanges, statusChanges } = await simulateWithNeighbours(gameState);
+
+  const recipe = getRecipe(recipeId);
+  if (gameState.player.level < recipe.unlockLevel) {
+    throw new RouteError('rejected', `${recipe.name} unlocks at level ${recipe.unlockLevel}!`);
+  }
+
+  const crafted = craft(gameState.inventory, recipeId, quantity);
+  if (!crafted.success) {
+    throw new RouteError('rejected', crafted.message);
+  }
+
+  const levelUp = grantExperience(gameState.player, 5 * quantity);
+
+  await saveGameState(gameState);
+
+  return {
+    type: 'craft',
+    postId,
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    message: `Crafted ${recipe.name}!`,
+    crafted: { itemId: recipe.output.itemId, quantity: recipe.output.quantity * quantity },
+    levelUp
+  };
+});
+
+handle(router, ROUTES.buySeeds, async (body, { playerId, postId }): Promise<BuySeedsResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
+  }
+
+  const { treeType, quantity } = body;
+
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
+  }
+
+  const { stageChanges, statusChanges } = await simulateWithNeighbours(gameState);
+
+  const species = getSpecies(treeType);
+  if (gameState.player.level < species.unlockLevel) {
+    throw new RouteError('rejected', `${species.name} seeds unlock at level ${species.unlockLevel}!`);
+  }
+
+  const totalCost = species.seedPrice * quantity;
+
+  if (gameState.player.coins < totalCost) {
+    throw new RouteError('rejected', 'Not enough coins!');
+  }
+
+  gameState.player.coins -= totalCost;
+  gameState.resources.seeds[treeType] += quantity;
+
+  await saveGameState(gameState);
+
+  return {
+    type: 'buy_seeds',
+    postId,
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    message: `Bought ${quantity} ${species.name} seeds!`
+  };
+});
+
+handle(router, ROUTES.buyWater, async (body, { playerId, postId }): Promise<BuyWaterResponse> => {
+  if (!postId) {
+    throw new RouteError('invalid_request', 'postId is required');
+  }
+
+  const { quantity } = body;
+
+  const gameState = await getGameState(playerId, WORLD_BIOME_ID);
+  
+  if (!gameState) {
+    throw new RouteError('not_found', 'Game state not found');
+  }
+
+  const { stageChanges, statusChanges } = await simulateWithNeighbours(gameState);
+
+  const totalCost = WATER_COST * quantity;
+
+  if (gameState.player.coins < totalCost) {
+    throw new RouteError('rejected', 'Not enough coins!');
+  }
+
+  gameState.player.coins -= totalCost;
+  gameState.resources.water += quantity;
+
+  await saveGameState(gameState);
+
+  return {
+    type: 'buy_water',
+    postId,
+    changes: await shareChanges(gameState),
+    stageChanges,
+    statusChanges,
+    message: `Bought ${quantity} water!`
+  };
+});
+
+// Chat API endpoints
+handle(router, ROUTES.sendChatMessage, async (body, { playerId }): Promise<SendChatMessageResponse> => {
+  const player = await getPlayer(playerId);
+  if (!player) {
+    throw new RouteError('not_found', 'Player not found');
+  }
+
+  const chatMessage = await postChatMessage(playerId, player.username, body.message, 'player');
+
+  return {
+    message: 'Message sent',
+    chatMessage
+  };
+});
+
+handle(router, ROUTES.chatMessages, async (): Promise<GetChatMessagesResponse> => {
+  return {
+    messages: await getRecentChatMessages(WORLD_BIOME_ID, CHAT_HISTORY)
+  };
 });
 
 router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
@@ -1119,6 +1186,22 @@ router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
   }
 });
 
+router.post('/internal/menu/migrate-data', async (_req, res): Promise<void> => {
+  try {
+    const migrated = await migrateBiomeRecords(WORLD_BIOME_ID);
+
+    res.json({
+      showToast: `Upgraded ${migrated} stored records to the latest schema`,
+    });
+  } catch (error) {
+    console.error(`Error migrating data: ${error}`);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to migrate data',
+    });
+  }
+});
+
 // Devvit Custom Post Type Configuration
 // Note: Custom post types are handled by Devvit framework automatically
 
@@ -0,0 +1,28 @@
+import type { GameState, GameStateDelta } from '../types/api';
+
+// Replace changed entities where they are, append new ones and drop removed ones
+function mergeById<T extends { id: string }>(current: T[], changed: T[] = [], removedIds: string[] = []): T[] {
+  const updates = new Map(changed.map(entity => [entity.id, entity]));
+  const removed = new Set(removedIds);
+  const merged = current
+    .filter(entity => !removed.has(entity.id))
+    .map(entity => updates.get(entity.id) ?? entity);
+  const existing = new Set(current.map(entity => entity.id));
+  return [...merged, ...changed.filter(entity => !existing.has(entity.id))];
+}
+
+// The game state after an action, from the state at the delta's base version and the changes the action sent back
+export function applyGameStateDelta(gameState: GameState, delta: GameStateDelta): GameState {
+  return {
+    player: delta.player ?? gameState.player,
+    currentBiome: {
+      ...gameState.currentBiome,
+      landPlots: mergeById(gameState.currentBiome.landPlots, delta.landPlots),
+      weather: delta.weather ?? gameState.currentBiome.weather
+    },
+    trees: mergeById(gameState.trees, delta.trees, delta.removedTreeIds),
+    resources: delta.resources ?? gameState.resources,
+    inventory: delta.inventory ?? gameState.inventory,
+    lastPlayed: delta.lastPlayed ?? gameState.lastPlayed
+  };
+}
@@ -0,0 +1,17 @@
+import { getAreaId, getAreaIdsAround } from '../data/world';
+
+// Realtime channels. Each area of the world has its own channel, and players listen to the area they are in
+// and the ones around it, so that they hear about everything within at least one area of them.
+
+export function getAreaChannel(biomeId: string, x: number, z: number): string {
+  return `area_${biomeId}_${getAreaId(x, z)}`;
+}
+
+export function getAreaChannelsAround(biomeId: string, x: number, z: number): string[] {
+  return getAreaIdsAround(x, z).map(areaId => `area_${biomeId}_${areaId}`);
+}
+
+// Chat is shared by the whole biome rather than by area
+export function getChatChannel(biomeId: string): string {
+  return `chat_${biomeId}`;
+}
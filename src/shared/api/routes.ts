@@ -0,0 +1,76 @@
+import type {
+  BuyItemResponse,
+  BuyLandResponse,
+  BuySeedsResponse,
+  BuyWaterResponse,
+  ClearTreeResponse,
+  CraftResponse,
+  FertilizeResponse,
+  GameStateResponse,
+  GetAchievementsResponse,
+  GetChatMessagesResponse,
+  GetNearbyPlayersResponse,
+  HarvestTreeResponse,
+  InitResponse,
+  MovePlayerResponse,
+  PlantTreeResponse,
+  SendChatMessageResponse,
+  TreatTreeResponse,
+  WaterTreeResponse
+} from '../types/api';
+import {
+  BUY_ITEM_REQUEST,
+  BUY_LAND_REQUEST,
+  BUY_SEEDS_REQUEST,
+  BUY_WATER_REQUEST,
+  CLEAR_TREE_REQUEST,
+  CRAFT_REQUEST,
+  FERTILIZE_REQUEST,
+  HARVEST_TREE_REQUEST,
+  MOVE_PLAYER_REQUEST,
+  NO_BODY,
+  PLANT_TREE_REQUEST,
+  SEND_CHAT_MESSAGE_REQUEST,
+  TREAT_TREE_REQUEST,
+  WATER_TREE_REQUEST
+} from '../validation/requests';
+import type { Schema } from '../validation/schema';
+
+// The contract between client and server: every API route's method, path, body schema and response type.
+// The browser client and the Express handlers are both typed from these, so neither can drift from the other.
+
+export type RouteDefinition<Req, Res> = {
+  method: 'GET' | 'POST';
+  path: string;
+  request: Schema<Req>;
+  response?: Res; // Never set; only carries the response type
+};
+
+function get<Res>(path: string): RouteDefinition<void, Res> {
+  return { method: 'GET', path, request: NO_BODY };
+}
+
+function post<Res>() {
+  return <Req>(path: string, request: Schema<Req>): RouteDefinition<Req, Res> => ({ method: 'POST', path, request });
+}
+
+export const ROUTES = {
+  init: get<InitResponse>('/api/init'),
+  gameState: get<GameStateResponse>('/api/game-state'),
+  nearbyPlayers: get<GetNearbyPlayersResponse>('/api/nearby-players'),
+  achievements: get<GetAchievementsResponse>('/api/achievements'),
+  chatMessages: get<GetChatMessagesResponse>('/api/chat-messages'),
+  plantTree: post<PlantTreeResponse>()('/api/plant-tree', PLANT_TREE_REQUEST),
+  waterTree: post<WaterTreeResponse>()('/api/water-tree', WATER_TREE_REQUEST),
+  harvestTree: post<HarvestTreeResponse>()('/api/harvest-tree', HARVEST_TREE_REQUEST),
+  clearTree: post<ClearTreeResponse>()('/api/clear-tree', CLEAR_TREE_REQUEST),
+  treatTree: post<TreatTreeResponse>()('/api/treat-tree', TREAT_TREE_REQUEST),
+  fertilize: post<FertilizeResponse>()('/api/fertilize', FERTILIZE_REQUEST),
+  buyLand: post<BuyLandResponse>()('/api/buy-land', BUY_LAND_REQUEST),
+  buySeeds: post<BuySeedsResponse>()('/api/buy-seeds', BUY_SEEDS_REQUEST),
+  buyWater: post<BuyWaterResponse>()('/api/buy-water', BUY_WATER_REQUEST),
+  buyItem: post<BuyItemResponse>()('/api/buy-item', BUY_ITEM_REQUEST),
+  craft: post<CraftResponse>()('/api/craft', CRAFT_REQUEST),
+  movePlayer: post<MovePlayerResponse>()('/api/move-player', MOVE_PLAYER_REQUEST),
+  sendChatMessage: post<SendChatMessageResponse>()('/api/send-chat-message', SEND_CHAT_MESSAGE_REQUEST)
+};
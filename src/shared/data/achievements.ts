@@ -0,0 +1,145 @@
+import type { AchievementDefinition, AchievementMetric, AchievementProgress, BiomeType, Player, PlayerStats } from '../types/api';
+import { VARIETY_COUNT } from './genetics';
+
+const BIOME_TYPES: BiomeType[] = ['forest', 'meadow', 'hills', 'lake', 'mountain'];
+
+// Every achievement is a threshold on one metric. Adding an entry here is all it takes to add one.
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first_tree',
+    name: 'First Steps',
+    description: 'Plant your first tree',
+    icon: '🌱',
+    category: 'planting',
+    metric: 'treesPlanted',
+    threshold: 1
+  },
+  {
+    id: 'tree_master',
+    name: 'Tree Master',
+    description: 'Plant 50 trees',
+    icon: '🌳',
+    category: 'planting',
+    metric: 'treesPlanted',
+    threshold: 50
+  },
+  {
+    id: 'harvester',
+    name: 'Harvester',
+    description: 'Harvest 25 trees',
+    icon: '🌾',
+    category: 'harvesting',
+    metric: 'treesHarvested',
+    threshold: 25
+  },
+  {
+    id: 'landowner',
+    name: 'Landowner',
+    description: 'Own 5 land plots',
+    icon: '🏡',
+    category: 'economy',
+    metric: 'landPlots',
+    threshold: 5
+  },
+  {
+    id: 'explorer',
+    name: 'Explorer',
+    description: 'Visit all biome types',
+    icon: '🗺️',
+    category: 'exploration',
+    metric: 'biomesVisited',
+    threshold: BIOME_TYPES.length
+  },
+  {
+    id: 'social_butterfly',
+    name: 'Social Butterfly',
+    description: 'Meet 10 other players',
+    icon: '🦋',
+    category: 'social',
+    metric: 'playersMet',
+    threshold: 10
+  },
+  {
+    id: 'millionaire',
+    name: 'Millionaire',
+    description: 'Accumulate 10,000 coins',
+    icon: '💰',
+    category: 'economy',
+    metric: 'coinsEarned',
+    threshold: 10000
+  },
+  {
+    id: 'master_gardener',
+    name: 'Master Gardener',
+    description: 'Reach level 25',
+    icon: '👨‍🌾',
+    category: 'mastery',
+    metric: 'level',
+    threshold: 25
+  },
+  {
+    id: 'breeder',
+    name: 'Breeder',
+    description: 'Grow 5 different tree varieties',
+    icon: '🧬',
+    category: 'mastery',
+    metric: 'varietiesDiscovered',
+    threshold: 5
+  },
+  {
+    id: 'master_breeder',
+    name: 'Master Breeder',
+    description: 'Grow every species in every colour',
+    icon: '🌈',
+    category: 'mastery',
+    metric: 'varietiesDiscovered',
+    threshold: VARIETY_COUNT
+  }
+];
+
+export function createPlayerStats(): PlayerStats {
+  return {
+    treesPlanted: 0,
+    treesHarvested: 0,
+    coinsEarned: 0,
+    playersMet: [],
+    biomesVisited: [],
+    varietiesDiscovered: []
+  };
+}
+
+export function getMetricValue(player: Player, metric: AchievementMetric): number {
+  const { stats } = player;
+  switch (metric) {
+    case 'treesPlanted':
+      return stats.treesPlanted;
+    case 'treesHarvested':
+      return stats.treesHarvested;
+    case 'coinsEarned':
+      return stats.coinsEarned;
+    case 'playersMet':
+      return stats.playersMet.length;
+    case 'biomesVisited':
+      return stats.biomesVisited.length;
+    case 'varietiesDiscovered':
+      return stats.varietiesDiscovered.length;
+    case 'landPlots':
+      return player.landPlots.length;
+    case 'level':
+      return player.level;
+  }
+}
+
+export function getAchievementProgress(player: Player): AchievementProgress[] {
+  return ACHIEVEMENTS.map(definition => {
+    const current = getMetricValue(player, definition.metric);
+    const unlocked = player.achievements.some(a => a.id === definition.id);
+    return {
+      id: definition.id,
+      current: Math.min(current, definition.threshold),
+      threshold: definition.threshold,
+      percent: unlocked ? 100 : Math.floor(Math.min(1, current / definition.threshold) * 100),
+      unlocked
+    };
+  });
+}
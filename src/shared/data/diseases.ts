@@ -0,0 +1,34 @@
+import type { DiseaseDefinition } from '../types/api';
+
+// Every disease and pest that can strike a tree. Adding an entry here is all it takes to add one.
+export const DISEASES = {
+  blight: {
+    name: 'Leaf Blight',
+    icon: '🍂',
+    description: 'A fungus that browns leaves and spreads on the wind',
+    healthLossPerHour: 6,
+    yieldMultiplier: 0.5,
+    spreadRadius: 15,
+    spreadChancePerHour: 0.3
+  },
+  beetles: {
+    name: 'Bark Beetles',
+    icon: '🐛',
+    description: 'Pests that bore into bark and crawl to nearby trees',
+    healthLossPerHour: 10,
+    yieldMultiplier: 0.7,
+    spreadRadius: 8,
+    spreadChancePerHour: 0.5
+  }
+} satisfies Record<string, DiseaseDefinition>;
+
+export type DiseaseId = keyof typeof DISEASES;
+
+export const DISEASE_IDS = Object.keys(DISEASES) as DiseaseId[];
+
+// Chance per hour that a healthy tree catches something out of nowhere
+export const OUTBREAK_CHANCE_PER_HOUR = 0.02;
+
+export function getDisease(diseaseId: DiseaseId): DiseaseDefinition {
+  return DISEASES[diseaseId];
+}
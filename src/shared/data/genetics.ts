@@ -0,0 +1,39 @@
+import type { TreeTraits } from '../types/api';
+import { TREE_TYPES, type TreeType } from './species';
+
+export type ColorVariantDefinition = {
+  name: string;
+  color: string | null; // Foliage colour, or null to keep the species' own
+  weight: number; // Relative chance of mutating into this variant
+};
+
+// Numeric traits are multipliers, kept within this range however they are bred
+export const TRAIT_RANGE = { min: 0.5, max: 2 };
+
+export const COLOR_VARIANTS = {
+  common: { name: 'Common', color: null, weight: 0 },
+  golden: { name: 'Golden', color: '#FFD700', weight: 4 },
+  crimson: { name: 'Crimson', color: '#DC143C', weight: 4 },
+  azure: { name: 'Azure', color: '#4169E1', weight: 2 },
+  violet: { name: 'Violet', color: '#8A2BE2', weight: 2 },
+  silver: { name: 'Silver', color: '#C0C0C0', weight: 1 }
+} satisfies Record<string, ColorVariantDefinition>;
+
+export type ColorVariant = keyof typeof COLOR_VARIANTS;
+
+export const COLOR_VARIANT_IDS = Object.keys(COLOR_VARIANTS) as ColorVariant[];
+
+// Every species in every colour, the full collection to breed for
+export const VARIETY_COUNT = TREE_TYPES.length * COLOR_VARIANT_IDS.length;
+
+export function getColorVariant(variant: ColorVariant): ColorVariantDefinition {
+  return COLOR_VARIANTS[variant];
+}
+
+export function createBaseTraits(): TreeTraits {
+  return { growthSpeed: 1, hardiness: 1, yield: 1, colorVariant: 'common' };
+}
+
+export function getVarietyId(type: TreeType, variant: ColorVariant): string {
+  return `${type}:${variant}`;
+}
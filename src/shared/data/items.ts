@@ -0,0 +1,95 @@
+import type { ItemDefinition } from '../types/api';
+
+// Every item a player can hold. Adding an entry here makes it grantable, consumable and shown in the inventory.
+export const ITEMS = {
+  fertilizer: {
+    name: 'Fertilizer',
+    description: 'Compost from cleared trees. Enriches the soil.',
+    icon: '🧪',
+    category: 'consumable',
+    maxStack: 99
+  },
+  remedy: {
+    name: 'Tree Remedy',
+    description: 'Cures a tree of disease and pests.',
+    icon: '💊',
+    category: 'consumable',
+    maxStack: 20,
+    price: 15
+  },
+  wood: {
+    name: 'Wood',
+    description: 'Sturdy timber from oak and cedar.',
+    icon: '🪵',
+    category: 'product',
+    maxStack: 999
+  },
+  fruit: {
+    name: 'Cherries',
+    description: 'Sweet fruit from cherry trees.',
+    icon: '🍒',
+    category: 'product',
+    maxStack: 999
+  },
+  sap: {
+    name: 'Maple Sap',
+    description: 'Sticky sap tapped from maples.',
+    icon: '🍯',
+    category: 'product',
+    maxStack: 999
+  },
+  resin: {
+    name: 'Pine Resin',
+    description: 'Fragrant resin from pines.',
+    icon: '🟠',
+    category: 'product',
+    maxStack: 999
+  },
+  fence: {
+    name: 'Fence',
+    description: 'A wooden fence to mark out your land.',
+    icon: '🚧',
+    category: 'decoration',
+    maxStack: 99
+  },
+  lantern: {
+    name: 'Lantern',
+    description: 'A resin lantern that glows at dusk.',
+    icon: '🏮',
+    category: 'decoration',
+    maxStack: 99
+  },
+  birdhouse: {
+    name: 'Birdhouse',
+    description: 'Somewhere for the local birds to nest.',
+    icon: '🐦',
+    category: 'decoration',
+    maxStack: 99
+  },
+  pruning_shears: {
+    name: 'Pruning Shears',
+    description: 'Keeps branches tidy.',
+    icon: '✂️',
+    category: 'tool',
+    maxStack: 1
+  },
+  watering_can: {
+    name: 'Watering Can',
+    description: 'A sturdy can for tending trees.',
+    icon: '🪣',
+    category: 'tool',
+    maxStack: 1
+  }
+} satisfies Record<string, ItemDefinition>;
+
+export type ItemId = keyof typeof ITEMS;
+
+export const ITEM_IDS = Object.keys(ITEMS) as ItemId[];
+
+export function isItemId(value: unknown): value is ItemId {
+  return typeof value === 'string' && Object.hasOwn(ITEMS, value);
+}
+
+export function getItem(itemId: ItemId): ItemDefinition {
+  return ITEMS[itemId];
+}
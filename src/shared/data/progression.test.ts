@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { getLevelUnlocks } from './progression';
+
+describe('getLevelUnlocks', () => {
+  it('lists the recipes that become craftable at a level', () => {
+    expect(getLevelUnlocks(3)).toContain('🏮 Lantern crafting');
+  });
+
+  it('leaves out recipes from other levels', () => {
+    expect(getLevelUnlocks(2).some(unlock => unlock.includes('Lantern'))).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import { TREE_SPECIES, TREE_TYPES } from './species';
+import { getItem } from './items';
+import { getRecipe, RECIPE_IDS } from './recipes';
+
+// Experience curve: each level costs `growthRate` times more than the one before
+export const XP_CURVE = {
+  baseExperience: 100, // Experience needed to go from level 1 to 2
+  growthRate: 1.15,
+  maxLevel: 50
+};
+
+// Land plots a player may own at each level
+const BASE_PLOT_LIMIT = 2;
+const LEVELS_PER_EXTRA_PLOT = 5;
+
+// Total experience needed to reach `level`
+export function experienceForLevel(level: number): number {
+  let total = 0;
+  for (let l = 1; l < Math.min(level, XP_CURVE.maxLevel); l++) {
+    total += Math.round(XP_CURVE.baseExperience * Math.pow(XP_CURVE.growthRate, l - 1));
+  }
+  return total;
+}
+
+export function levelForExperience(experience: number): number {
+  let level = 1;
+  while (level < XP_CURVE.maxLevel && experience >= experienceForLevel(level + 1)) {
+    level++;
+  }
+  return level;
+}
+
+// How far through the current level a player is, from 0 to 1
+export function levelProgress(experience: number): number {
+  const level = levelForExperience(experience);
+  if (level >= XP_CURVE.maxLevel) return 1;
+
+  const start = experienceForLevel(level);
+  const end = experienceForLevel(level + 1);
+  return (experience - start) / (end - start);
+}
+
+export function maxPlotsForLevel(level: number): number {
+  return BASE_PLOT_LIMIT + Math.floor(level / LEVELS_PER_EXTRA_PLOT);
+}
+
+// Human-readable list of what becomes available on reaching `level`
+export function getLevelUnlocks(level: number): string[] {
+  const unlocks = TREE_TYPES
+    .filter(type => TREE_SPECIES[type].unlockLevel === level)
+    .map(type => `${TREE_SPECIES[type].icon} ${TREE_SPECIES[type].name} seeds`);
+
+  for (const recipe of RECIPE_IDS.map(getRecipe).filter(recipe => recipe.unlockLevel === level)) {
+    unlocks.push(`${getItem(recipe.output.itemId).icon} ${recipe.name} crafting`);
+  }
+
+  if (level > 1 && maxPlotsForLevel(level) > maxPlotsForLevel(level - 1)) {
+    unlocks.push(`🏡 Own up to ${maxPlotsForLevel(level)} land plots`);
+  }
+
+  return unlocks;
+}
@@ -0,0 +1,59 @@
+import type { RecipeDefinition } from '../types/api';
+
+// Everything that can be crafted from harvest products. Adding an entry here adds it to the crafting panel.
+export const RECIPES = {
+  fertilizer: {
+    name: 'Fertilizer',
+    ingredients: [{ itemId: 'fruit', quantity: 2 }, { itemId: 'sap', quantity: 1 }],
+    output: { itemId: 'fertilizer', quantity: 2 },
+    unlockLevel: 1
+  },
+  remedy: {
+    name: 'Tree Remedy',
+    ingredients: [{ itemId: 'resin', quantity: 2 }, { itemId: 'sap', quantity: 1 }],
+    output: { itemId: 'remedy', quantity: 1 },
+    unlockLevel: 2
+  },
+  fence: {
+    name: 'Fence',
+    ingredients: [{ itemId: 'wood', quantity: 4 }],
+    output: { itemId: 'fence', quantity: 1 },
+    unlockLevel: 1
+  },
+  lantern: {
+    name: 'Lantern',
+    ingredients: [{ itemId: 'wood', quantity: 1 }, { itemId: 'resin', quantity: 3 }],
+    output: { itemId: 'lantern', quantity: 1 },
+    unlockLevel: 3
+  },
+  birdhouse: {
+    name: 'Birdhouse',
+    ingredients: [{ itemId: 'wood', quantity: 6 }, { itemId: 'fruit', quantity: 2 }],
+    output: { itemId: 'birdhouse', quantity: 1 },
+    unlockLevel: 5
+  },
+  pruning_shears: {
+    name: 'Pruning Shears',
+    ingredients: [{ itemId: 'wood', quantity: 3 }, { itemId: 'resin', quantity: 5 }],
+    output: { itemId: 'pruning_shears', quantity: 1 },
+    unlockLevel: 4
+  },
+  watering_can: {
+    name: 'Watering Can',
+    ingredients: [{ itemId: 'wood', quantity: 8 }, { itemId: 'sap', quantity: 4 }],
+    output: { itemId: 'watering_can', quantity: 1 },
+    unlockLevel: 6
+  }
+} satisfies Record<string, RecipeDefinition>;
+
+export type RecipeId = keyof typeof RECIPES;
+
+export const RECIPE_IDS = Object.keys(RECIPES) as RecipeId[];
+
+export function isRecipeId(value: unknown): value is RecipeId {
+  return typeof value === 'string' && Object.hasOwn(RECIPES, value);
+}
+
+export function getRecipe(recipeId: RecipeId): RecipeDefinition {
+  return RECIPES[recipeId];
+}
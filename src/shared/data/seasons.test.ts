@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { getSeasonAt, getSeasonsBetween, SEASON_LENGTH } from './seasons';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('getSeasonAt', () => {
+  it('uses the default season length unless given one', () => {
+    expect(getSeasonAt(SEASON_LENGTH + 1)).toEqual({ season: 'summer', startedAt: SEASON_LENGTH, endsAt: 2 * SEASON_LENGTH });
+  });
+
+  it('follows a configured season length', () => {
+    expect(getSeasonAt(7 * HOUR, 2 * HOUR)).toEqual({ season: 'winter', startedAt: 6 * HOUR, endsAt: 8 * HOUR });
+  });
+});
+
+describe('getSeasonsBetween', () => {
+  it('steps through seasons of a configured length', () => {
+    const seasons = getSeasonsBetween(HOUR, 5 * HOUR, 2 * HOUR);
+
+    expect(seasons.map(season => season.season)).toEqual(['spring', 'summer', 'autumn']);
+  });
+});
@@ -0,0 +1,41 @@
+import type { Season, SeasonInfo } from '../types/api';
+
+export type SeasonDefinition = {
+  name: string;
+  icon: string;
+};
+
+// Real time each season lasts unless the server is configured otherwise; a full year takes four times this
+export const SEASON_LENGTH = 24 * 60 * 60 * 1000;
+
+export const SEASON_ORDER: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+export const SEASONS = {
+  spring: { name: 'Spring', icon: '🌸' },
+  summer: { name: 'Summer', icon: '☀️' },
+  autumn: { name: 'Autumn', icon: '🍂' },
+  winter: { name: 'Winter', icon: '❄️' }
+} satisfies Record<Season, SeasonDefinition>;
+
+export function getSeason(season: Season): SeasonDefinition {
+  return SEASONS[season];
+}
+
+// The calendar is shared by the whole world and counted from the Unix epoch
+export function getSeasonAt(time: number, seasonLength: number = SEASON_LENGTH): SeasonInfo {
+  const index = Math.floor(time / seasonLength);
+  return {
+    season: SEASON_ORDER[index % SEASON_ORDER.length]!,
+    startedAt: index * seasonLength,
+    endsAt: (index + 1) * seasonLength
+  };
+}
+
+// Every season overlapping [from, to), in order
+export function getSeasonsBetween(from: number, to: number, seasonLength: number = SEASON_LENGTH): SeasonInfo[] {
+  const seasons: SeasonInfo[] = [];
+  for (let time = from; time < to; time = seasons[seasons.length - 1]!.endsAt) {
+    seasons.push(getSeasonAt(time, seasonLength));
+  }
+  return seasons;
+}
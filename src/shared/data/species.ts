@@ -0,0 +1,140 @@
+import type { BiomeType, ItemStack, Season, SeedInventory } from '../types/api';
+
+export type TreeSpecies = {
+  name: string;
+  icon: string;
+  description: string;
+  growthTime: number; // Milliseconds per growth stage
+  water: {
+    gracePeriod: number; // Milliseconds after watering before health starts to drop
+    healthLossPerHour: number;
+  };
+  baseYield: number; // Coins from harvesting a fully healthy mature tree
+  product: ItemStack; // Goods from harvesting a fully healthy mature tree
+  preferredBiome: BiomeType; // Grows faster on plots of this biome
+  seasonalGrowth: Record<Season, number>; // Growth rate multiplier per season; nothing grows in winter
+  seedPrice: number; // Coins per seed in the shop
+  unlockLevel: number; // Player level needed to buy and plant this species
+  mesh: {
+    shape: 'cone' | 'sphere';
+    radius: number; // Cone base radius (unused for spheres)
+    sizePerStage: number; // Cone height or sphere radius added per growth stage
+    segments: number;
+  };
+  colors: {
+    foliage: string;
+    minimap: string;
+    seasonal?: Partial<Record<Season, string>>; // Foliage colour overrides for particular seasons
+  };
+  minimapSize: number;
+};
+
+// Every tree species in the game. Adding an entry here is all it takes to add a species.
+export const TREE_SPECIES = {
+  oak: {
+    name: 'Oak',
+    icon: '🌳',
+    description: 'High durability',
+    growthTime: 30000,
+    water: { gracePeriod: 2 * 60 * 60 * 1000, healthLossPerHour: 8 },
+    baseYield: 20,
+    product: { itemId: 'wood', quantity: 3 },
+    preferredBiome: 'forest',
+    seasonalGrowth: { spring: 1, summer: 1.1, autumn: 0.9, winter: 0 },
+    seedPrice: 10,
+    unlockLevel: 1,
+    mesh: { shape: 'cone', radius: 0.5, sizePerStage: 2, segments: 8 },
+    colors: { foliage: '#8B4513', minimap: '#8B4513' },
+    minimapSize: 2
+  },
+  pine: {
+    name: 'Pine',
+    icon: '🌲',
+    description: 'Fast growth',
+    growthTime: 24000,
+    water: { gracePeriod: 60 * 60 * 1000, healthLossPerHour: 10 },
+    baseYield: 15,
+    product: { itemId: 'resin', quantity: 2 },
+    preferredBiome: 'hills',
+    seasonalGrowth: { spring: 1, summer: 1, autumn: 1, winter: 0 },
+    seedPrice: 10,
+    unlockLevel: 1,
+    mesh: { shape: 'cone', radius: 0.3, sizePerStage: 1.5, segments: 6 },
+    colors: { foliage: '#228B22', minimap: '#228B22' },
+    minimapSize: 1.8
+  },
+  cherry: {
+    name: 'Cherry',
+    icon: '🌸',
+    description: 'Beautiful blooms',
+    growthTime: 36000,
+    water: { gracePeriod: 60 * 60 * 1000, healthLossPerHour: 12 },
+    baseYield: 25,
+    product: { itemId: 'fruit', quantity: 3 },
+    preferredBiome: 'meadow',
+    seasonalGrowth: { spring: 1.3, summer: 1, autumn: 0.8, winter: 0 },
+    seedPrice: 10,
+    unlockLevel: 3,
+    mesh: { shape: 'sphere', radius: 0, sizePerStage: 0.8, segments: 8 },
+    colors: { foliage: '#3CB371', minimap: '#FF69B4', seasonal: { spring: '#FF69B4' } }, // Only blossoms in spring
+    minimapSize: 1.8
+  },
+  maple: {
+    name: 'Maple',
+    icon: '🍁',
+    description: 'Seasonal colors',
+    growthTime: 30000,
+    water: { gracePeriod: 60 * 60 * 1000, healthLossPerHour: 10 },
+    baseYield: 18,
+    product: { itemId: 'sap', quantity: 2 },
+    preferredBiome: 'forest',
+    seasonalGrowth: { spring: 1, summer: 1.1, autumn: 1.2, winter: 0 },
+    seedPrice: 10,
+    unlockLevel: 5,
+    mesh: { shape: 'cone', radius: 0.4, sizePerStage: 1.8, segments: 8 },
+    colors: { foliage: '#6B8E23', minimap: '#FF4500', seasonal: { autumn: '#B22222' } }, // Leaves turn red in autumn
+    minimapSize: 2
+  },
+  cedar: {
+    name: 'Cedar',
+    icon: '🌲',
+    description: 'Mountain variety',
+    growthTime: 33000,
+    water: { gracePeriod: 90 * 60 * 1000, healthLossPerHour: 8 },
+    baseYield: 22,
+    product: { itemId: 'wood', quantity: 4 },
+    preferredBiome: 'mountain',
+    seasonalGrowth: { spring: 0.9, summer: 1, autumn: 1.1, winter: 0 },
+    seedPrice: 10,
+    unlockLevel: 8,
+    mesh: { shape: 'cone', radius: 0.4, sizePerStage: 1.8, segments: 8 },
+    colors: { foliage: '#2F4F4F', minimap: '#2F4F4F' },
+    minimapSize: 2
+  }
+} satisfies Record<string, TreeSpecies>;
+
+export type TreeType = keyof typeof TREE_SPECIES;
+
+export const TREE_TYPES = Object.keys(TREE_SPECIES) as TreeType[];
+
+export function isTreeType(value: unknown): value is TreeType {
+  return typeof value === 'string' && Object.hasOwn(TREE_SPECIES, value);
+}
+
+export function getSpecies(type: TreeType): TreeSpecies {
+  return TREE_SPECIES[type];
+}
+
+export function getFoliageColor(type: TreeType, season: Season): string {
+  const { colors } = getSpecies(type);
+  return colors.seasonal?.[season] ?? colors.foliage;
+}
+
+// A seed inventory with every species present, so counts never come back undefined
+export function createSeedInventory(initial: Partial<SeedInventory> = {}): SeedInventory {
+  const inventory = {} as SeedInventory;
+  for (const type of TREE_TYPES) {
+    inventory[type] = initial[type] ?? 0;
+  }
+  return inventory;
+}
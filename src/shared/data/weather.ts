@@ -0,0 +1,135 @@
+import type { BiomeType, Weather, WeatherType } from '../types/api';
+
+export type WeatherDefinition = {
+  name: string;
+  icon: string;
+  description: string;
+  watersTrees: boolean; // Keeps living trees watered for as long as it lasts
+  healthLossMultiplier: number; // Scales how fast thirsty trees lose health
+  growthMultiplier: number;
+  stormDamage: number; // Health taken from tall trees when the weather arrives
+  fogMultiplier: number; // Scales the biome's fog density on the client
+  precipitation: boolean; // Rain, or snow in cold biomes
+};
+
+// How long each spell of weather lasts before the next one rolls in
+export const WEATHER_DURATION = 30 * 60 * 1000;
+
+// Trees at or above this growth stage are tall enough to be hurt by storms
+export const STORM_MIN_STAGE = 4;
+
+export const WEATHER = {
+  clear: {
+    name: 'Clear',
+    icon: '☀️',
+    description: 'Calm skies',
+    watersTrees: false,
+    healthLossMultiplier: 1,
+    growthMultiplier: 1,
+    stormDamage: 0,
+    fogMultiplier: 1,
+    precipitation: false
+  },
+  rain: {
+    name: 'Rain',
+    icon: '🌧️',
+    description: 'Rain waters every tree for you',
+    watersTrees: true,
+    healthLossMultiplier: 1,
+    growthMultiplier: 1,
+    stormDamage: 0,
+    fogMultiplier: 1.5,
+    precipitation: true
+  },
+  drought: {
+    name: 'Drought',
+    icon: '🔥',
+    description: 'Thirsty trees lose health twice as fast',
+    watersTrees: false,
+    healthLossMultiplier: 2,
+    growthMultiplier: 1,
+    stormDamage: 0,
+    fogMultiplier: 0.5,
+    precipitation: false
+  },
+  storm: {
+    name: 'Storm',
+    icon: '⛈️',
+    description: 'Waters trees but damages tall ones',
+    watersTrees: true,
+    healthLossMultiplier: 1,
+    growthMultiplier: 1,
+    stormDamage: 25,
+    fogMultiplier: 2,
+    precipitation: true
+  },
+  fog: {
+    name: 'Fog',
+    icon: '🌫️',
+    description: 'Trees grow a little slower without sun',
+    watersTrees: false,
+    healthLossMultiplier: 1,
+    growthMultiplier: 0.9,
+    stormDamage: 0,
+    fogMultiplier: 4,
+    precipitation: false
+  }
+} satisfies Record<WeatherType, WeatherDefinition>;
+
+export const WEATHER_TYPES = Object.keys(WEATHER) as WeatherType[];
+
+// Relative chance of each kind of weather per biome
+export const BIOME_WEATHER: Record<BiomeType, Record<WeatherType, number>> = {
+  forest: { clear: 5, rain: 3, drought: 1, storm: 1, fog: 2 },
+  meadow: { clear: 6, rain: 2, drought: 2, storm: 1, fog: 1 },
+  hills: { clear: 5, rain: 2, drought: 1, storm: 2, fog: 2 },
+  lake: { clear: 4, rain: 3, drought: 1, storm: 1, fog: 3 },
+  mountain: { clear: 4, rain: 3, drought: 0, storm: 3, fog: 2 }
+};
+
+// Biomes cold enough for precipitation to fall as snow
+export const SNOWY_BIOMES: BiomeType[] = ['mountain'];
+
+export function getWeather(type: WeatherType): WeatherDefinition {
+  return WEATHER[type];
+}
+
+// Weather follows a fixed schedule per region of each biome, so any past stretch of time can be replayed exactly,
+// and the client can work out the weather wherever the player walks
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function pickWeather(biomeId: string, region: BiomeType, slot: number): WeatherType {
+  const chances = BIOME_WEATHER[region];
+  const total = WEATHER_TYPES.reduce((sum, type) => sum + chances[type], 0);
+  let roll = hashString(`${biomeId}:${region}:${slot}`) % total;
+  for (const type of WEATHER_TYPES) {
+    roll -= chances[type];
+    if (roll < 0) return type;
+  }
+  return 'clear';
+}
+
+export function getWeatherAt(biomeId: string, region: BiomeType, time: number): Weather {
+  const slot = Math.floor(time / WEATHER_DURATION);
+  return {
+    type: pickWeather(biomeId, region, slot),
+    startedAt: slot * WEATHER_DURATION,
+    endsAt: (slot + 1) * WEATHER_DURATION
+  };
+}
+
+// Every spell of weather over a region overlapping [from, to), in order
+export function getWeatherBetween(biomeId: string, region: BiomeType, from: number, to: number): Weather[] {
+  const periods: Weather[] = [];
+  for (let time = from; time < to; time = periods[periods.length - 1]!.endsAt) {
+    periods.push(getWeatherAt(biomeId, region, time));
+  }
+  return periods;
+}
@@ -0,0 +1,89 @@
+import type { BiomeType, Player } from '../types/api';
+
+type Position = Player['position'];
+
+// The shared world is centred on the origin: x runs across its width and z along its height
+export const WORLD_WIDTH = 2000;
+export const WORLD_HEIGHT = 4000;
+
+// How far a player walks each second, in any direction
+export const PLAYER_SPEED = 30;
+
+// How far from themselves a player can plant, water and harvest
+export const INTERACTION_RANGE = 30;
+
+// The world is split into square areas so that what is near a position can be found without looking at everything:
+// players listen to the areas around them for realtime updates, and the server indexes plots, players and
+// infections by area. Anything within AREA_SIZE of a position is in one of the areas around it.
+export const AREA_SIZE = 100;
+
+// Area IDs only use letters, digits and underscores, so that they can go into channel names
+function areaIndex(coordinate: number): string {
+  const index = Math.floor(coordinate / AREA_SIZE);
+  return index < 0 ? `n${-index}` : `${index}`;
+}
+
+export function getAreaId(x: number, z: number): string {
+  return `${areaIndex(x)}_${areaIndex(z)}`;
+}
+
+// The area around a position and its eight neighbours
+export function getAreaIdsAround(x: number, z: number): string[] {
+  const areaIds: string[] = [];
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dz = -1; dz <= 1; dz++) {
+      areaIds.push(getAreaId(x + dx * AREA_SIZE, z + dz * AREA_SIZE));
+    }
+  }
+  return areaIds;
+}
+
+export function isInWorld(x: number, z: number): boolean {
+  return Math.abs(x) <= WORLD_WIDTH / 2 && Math.abs(z) <= WORLD_HEIGHT / 2;
+}
+
+export function clampToWorld(x: number, z: number): { x: number; z: number } {
+  return {
+    x: Math.max(-WORLD_WIDTH / 2, Math.min(WORLD_WIDTH / 2, x)),
+    z: Math.max(-WORLD_HEIGHT / 2, Math.min(WORLD_HEIGHT / 2, z))
+  };
+}
+
+// Height of the ground, the same rolling hills the client draws and the server keeps players on
+export function getTerrainHeight(x: number, z: number): number {
+  let height = 0;
+
+  // Rolling hills and smaller details
+  height += Math.sin(x * 0.01) * Math.cos(z * 0.01) * 2;
+  height += Math.sin(x * 0.02) * Math.cos(z * 0.02) * 1.5;
+  height += Math.sin(x * 0.05) * Math.cos(z * 0.05) * 0.5;
+  height += Math.sin(x * 0.1) * Math.cos(z * 0.1) * 0.3;
+  height += Math.sin(x * 0.2) * Math.cos(z * 0.2) * 0.1;
+
+  // Gentle mountain slopes towards the edges
+  const distFromCenter = Math.sqrt(x * x + z * z);
+  if (distFromCenter > 800) {
+    height += (distFromCenter - 800) * 0.02;
+  }
+
+  // Shallow central valley
+  if (Math.abs(x) < 300 && Math.abs(z) < 300) {
+    height -= 0.5;
+  }
+
+  return height;
+}
+
+// The world's regions follow its terrain: a lake in the central valley, forest to the west and meadow to the east,
+// rising into hills on the mountain slopes and then mountains near the edges
+export function getBiomeTypeAt(x: number, z: number): BiomeType {
+  const distFromCenter = Math.sqrt(x * x + z * z);
+  if (distFromCenter > 1400) return 'mountain';
+  if (distFromCenter > 800) return 'hills';
+  if (Math.abs(x) < 300 && Math.abs(z) < 300) return 'lake';
+  return x < 0 ? 'forest' : 'meadow';
+}
+
+export function isWithinReach(position: Position, x: number, z: number): boolean {
+  return Math.hypot(position.x - x, position.z - z) <= INTERACTION_RANGE;
+}
@@ -1,4 +1,40 @@
-export type TreeType = 'oak' | 'pine' | 'cherry' | 'maple' | 'cedar';
+import type { TreeType } from '../data/species';
+import type { ItemId } from '../data/items';
+import type { DiseaseId } from '../data/diseases';
+import type { ColorVariant } from '../data/genetics';
+import type { RecipeId } from '../data/recipes';
+import type { FieldError } from '../validation/schema';
+
+export type { TreeType, ItemId, DiseaseId, ColorVariant, RecipeId, FieldError };
+export type {
+  PlantTreeRequest,
+  BuyLandRequest,
+  MovePlayerRequest,
+  TreeActionRequest,
+  FertilizeRequest,
+  BuyItemRequest,
+  CraftRequest,
+  BuySeedsRequest,
+  BuyWaterRequest,
+  SendChatMessageRequest
+} from '../validation/requests';
+
+export type ApiErrorCode =
+  | 'invalid_request' // The body failed its schema; see errors
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'not_found'
+  | 'rejected' // Valid, but not allowed by the rules of the game
+  | 'conflict' // Lost a race with another action; safe to retry
+  | 'internal';
+
+// Every failed API call answers with this, whatever the route
+export type ApiError = {
+  status: 'error';
+  code: ApiErrorCode;
+  message: string;
+  errors?: FieldError[];
+};
 
 export type Tree = {
   id: string;
@@ -7,10 +43,63 @@ export type Tree = {
   y: number;
   z: number;
   growthStage: number; // 0-5 (seed to mature)
+  growthProgress: number; // Fractional growth stage, floored into growthStage
   plantedAt: number;
   lastWatered: number;
+  lastSimulatedAt: number; // Timestamp the simulation last advanced this tree to
   health: number; // 0-100
+  status: TreeStatus;
+  witheredAt?: number; // When health first hit 0
+  infection?: Infection;
+  traits: TreeTraits;
+  ownerId: string;
+};
+
+// Inherited by seeds; each numeric trait is a multiplier around 1
+export type TreeTraits = {
+  growthSpeed: number;
+  hardiness: number; // Divides health lost to thirst and disease
+  yield: number;
+  colorVariant: ColorVariant;
+};
+
+export type Infection = {
+  disease: DiseaseId;
+  infectedAt: number;
+};
+
+export type DiseaseDefinition = {
+  name: string;
+  icon: string;
+  description: string;
+  healthLossPerHour: number;
+  yieldMultiplier: number; // Applied to harvest coins while infected
+  spreadRadius: number; // Furthest distance the disease can jump between trees
+  spreadChancePerHour: number; // Chance per hour of infecting a tree right next to an infected one
+};
+
+// An infected tree as seen by neighbours, who can catch it from across plot boundaries
+export type InfectedTree = Infection & {
+  treeId: string;
   ownerId: string;
+  x: number;
+  z: number;
+};
+
+export type TreeStatus = 'alive' | 'withered' | 'dead';
+
+export type TreeStatusChange = {
+  treeId: string;
+  treeType: TreeType;
+  fromStatus: TreeStatus;
+  toStatus: TreeStatus;
+};
+
+export type TreeStageChange = {
+  treeId: string;
+  treeType: TreeType;
+  fromStage: number;
+  toStage: number;
 };
 
 export type LandPlot = {
@@ -22,6 +111,7 @@ export type LandPlot = {
   trees: string[]; // Tree IDs
   purchasedAt: number;
   price: number;
+  soilNutrients: number; // 0-100, drawn down by growing trees and restored with fertilizer
 };
 
 export type BiomeType = 'forest' | 'meadow' | 'hills' | 'lake' | 'mountain';
@@ -35,8 +125,10 @@ export type Player = {
   coins: number;
   redditGold: number; // Reddit Gold for premium features
   achievements: Achievement[];
+  stats: PlayerStats;
   landPlots: string[]; // Land plot IDs
   position: { x: number; y: number; z: number };
+  lastMovedAt: number; // How far the player's walking time has been used up to, for limiting how far the next move can go
   lastActive: number;
   premiumFeatures: {
     speedBoost: boolean;
@@ -56,19 +148,92 @@ export type Achievement = {
 
 export type AchievementCategory = 'planting' | 'harvesting' | 'exploration' | 'social' | 'economy' | 'mastery';
 
+// Lifetime counters, never decreased by harvesting, selling or clearing
+export type PlayerStats = {
+  treesPlanted: number;
+  treesHarvested: number;
+  coinsEarned: number;
+  playersMet: string[]; // IDs of every other player met
+  biomesVisited: BiomeType[];
+  varietiesDiscovered: string[]; // Species and colour variant pairs ever planted
+};
+
+export type AchievementMetric = 'treesPlanted' | 'treesHarvested' | 'coinsEarned' | 'playersMet' | 'biomesVisited' | 'varietiesDiscovered' | 'landPlots' | 'level';
+
+export type AchievementDefinition = {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  category: AchievementCategory;
+  metric: AchievementMetric;
+  threshold: number;
+};
+
+export type AchievementProgress = {
+  id: string;
+  current: number;
+  threshold: number;
+  percent: number; // 0-100
+  unlocked: boolean;
+};
+
 export type Biome = {
   id: string;
   name: string;
   type: BiomeType;
   maxPlayers: number;
-  landPlots: LandPlot[];
-  players: Player[];
+  landPlots: LandPlot[]; // The player's own plots and those near them, never the whole biome
   environment: {
     skyColor: string;
     groundColor: string;
     fogColor: string;
     fogDensity: number;
   };
+  weather: Weather; // Weather in the region the player is standing in
+};
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export type SeasonInfo = {
+  season: Season;
+  startedAt: number;
+  endsAt: number;
+};
+
+export type WeatherType = 'clear' | 'rain' | 'drought' | 'storm' | 'fog';
+
+export type Weather = {
+  type: WeatherType;
+  startedAt: number;
+  endsAt: number;
+};
+
+export type SeedInventory = Record<TreeType, number>;
+
+export type ItemCategory = 'consumable' | 'product' | 'tool' | 'decoration';
+
+export type ItemDefinition = {
+  name: string;
+  description: string;
+  icon: string;
+  category: ItemCategory;
+  maxStack: number; // Most of this item a player can hold
+  price?: number; // Coins in the shop; items without a price can't be bought
+};
+
+export type ItemStack = {
+  itemId: ItemId;
+  quantity: number;
+};
+
+export type Inventory = ItemStack[];
+
+export type RecipeDefinition = {
+  name: string;
+  ingredients: ItemStack[];
+  output: ItemStack;
+  unlockLevel: number; // Player level needed to craft it
 };
 
 export type GameState = {
@@ -76,75 +241,202 @@ export type GameState = {
   currentBiome: Biome;
   trees: Tree[];
   resources: {
-    seeds: number;
+    seeds: SeedInventory;
+    seedTraits: Partial<Record<TreeType, TreeTraits[]>>; // Bred seeds, planted before plain ones
     water: number;
-    fertilizer: number;
-    coins: number;
   };
+  inventory: Inventory;
   lastPlayed: number;
 };
 
+// What an action changed in the player's game state, to apply on top of the state the client holds at baseVersion
+export type GameStateDelta = {
+  baseVersion: number; // Stored version the action started from
+  version: number; // Stored version after the action
+  player?: Player;
+  trees?: Tree[]; // Planted or changed
+  removedTreeIds?: string[];
+  landPlots?: LandPlot[]; // Bought or changed
+  resources?: GameState['resources'];
+  inventory?: Inventory;
+  weather?: Weather;
+  lastPlayed?: number;
+};
+
 export type InitResponse = {
   type: "init";
   postId: string;
   gameState: GameState;
+  version: number;
   username: string;
   nearbyPlayers: Player[];
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+  achievementProgress: AchievementProgress[];
+  achievements?: Achievement[];
+  season: SeasonInfo;
+  nearbyInfections: InfectedTree[];
+  offlineSummary?: OfflineSummary | null;
+};
+
+// What happened to a player's trees and surroundings since they last played
+export type OfflineSummary = {
+  awayFor: number; // Milliseconds since the player was last here
+  stageChanges: TreeStageChange[];
+  statusChanges: TreeStatusChange[];
+  newInfections: { treeId: string; treeType: TreeType; disease: DiseaseId }[];
+  weather: { type: WeatherType; count: number }[]; // Spells of anything other than clear skies
+  newNeighbours: string[]; // Players who bought land in the meantime
+  healthLost: number; // Total across all trees
 };
 
 export type PlantTreeResponse = {
   type: "plant_tree";
   postId: string;
-  gameState: GameState;
-  success: boolean;
+  changes: GameStateDelta;
   message: string;
   achievements?: Achievement[];
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+  levelUp?: LevelUp | null;
 };
 
 export type WaterTreeResponse = {
   type: "water_tree";
   postId: string;
-  gameState: GameState;
-  success: boolean;
+  changes: GameStateDelta;
   message: string;
   achievements?: Achievement[];
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+  levelUp?: LevelUp | null;
 };
 
 export type HarvestTreeResponse = {
   type: "harvest_tree";
   postId: string;
-  gameState: GameState;
+  changes: GameStateDelta;
   rewards: {
     coins: number;
     seeds: number;
+    seedType: TreeType;
+    seedTraits?: TreeTraits[]; // Traits the harvested seeds were bred with
+    products?: ItemStack[]; // Species-specific goods, e.g. wood or fruit
     experience: number;
   };
   achievements?: Achievement[];
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+  levelUp?: LevelUp | null;
+};
+
+export type ClearTreeResponse = {
+  type: "clear_tree";
+  postId: string;
+  changes: GameStateDelta;
+  message: string;
+  rewards: {
+    fertilizer: number;
+    seeds: number;
+    seedType: TreeType;
+  };
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+};
+
+export type FertilizeResponse = {
+  type: "fertilize";
+  postId: string;
+  changes: GameStateDelta;
+  message: string;
+  soilNutrients?: number;
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+  levelUp?: LevelUp | null;
+  achievements?: Achievement[];
+};
+
+export type TreatTreeResponse = {
+  type: "treat_tree";
+  postId: string;
+  changes: GameStateDelta;
+  message: string;
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+  levelUp?: LevelUp | null;
+};
+
+export type BuyItemResponse = {
+  type: "buy_item";
+  postId: string;
+  changes: GameStateDelta;
+  message: string;
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+};
+
+export type CraftResponse = {
+  type: "craft";
+  postId: string;
+  changes: GameStateDelta;
+  message: string;
+  crafted?: ItemStack;
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+  levelUp?: LevelUp | null;
 };
 
 export type BuySeedsResponse = {
   type: "buy_seeds";
   postId: string;
-  gameState: GameState;
-  success: boolean;
+  changes: GameStateDelta;
   message: string;
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+};
+
+export type BuyWaterResponse = {
+  type: "buy_water";
+  postId: string;
+  changes: GameStateDelta;
+  message: string;
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
 };
 
 export type BuyLandResponse = {
   type: "buy_land";
   postId: string;
-  gameState: GameState;
-  success: boolean;
+  changes: GameStateDelta;
   message: string;
   landPlot?: LandPlot;
   achievements?: Achievement[];
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+};
+
+// Why the server refused a move, and where it has the player instead
+export type MoveCorrection = {
+  reason: 'too_fast' | 'out_of_bounds';
+  position: Player['position'];
 };
 
 export type MovePlayerResponse = {
   type: "move_player";
   postId: string;
-  gameState: GameState;
-  position: { x: number; y: number; z: number };
+  changes: GameStateDelta;
+  position: { x: number; y: number; z: number }; // Where the server has the player after the move
+  correction?: MoveCorrection | null; // Present when the move was refused and the client should snap back
+  stageChanges?: TreeStageChange[];
+  statusChanges?: TreeStatusChange[];
+  achievements?: Achievement[];
+  nearbyInfections: InfectedTree[];
+};
+
+export type LevelUp = {
+  fromLevel: number;
+  toLevel: number;
+  unlocks: string[];
 };
 
 export type ChatMessage = {
@@ -156,23 +448,36 @@ export type ChatMessage = {
   type: 'player' | 'system';
 };
 
-export type SendChatMessageRequest = {
-  postId: string;
-  playerId: string;
-  message: string;
-};
+// Broadcast over realtime channels to the players listening, see api/realtime
+export type RealtimeMessage =
+  | { type: 'player_moved'; playerId: string; username: string; position: Player['position'] }
+  | { type: 'chat_message'; chatMessage: ChatMessage }
+  | { type: 'plot_purchased'; landPlot: LandPlot }
+  | { type: 'trees_changed'; ownerId: string; trees: Tree[]; removedTreeIds: string[] }; // Only trees that look different
 
 export type SendChatMessageResponse = {
-  success: boolean;
   message: string;
   chatMessage?: ChatMessage;
 };
 
 export type GetChatMessagesResponse = {
-  success: boolean;
   messages: ChatMessage[];
 };
 
+export type GetAchievementsResponse = {
+  type: "achievements";
+  postId: string;
+  achievements: Achievement[];
+  progress: AchievementProgress[];
+};
+
+export type GameStateResponse = {
+  type: "game_state";
+  postId: string;
+  gameState: GameState;
+  version: number;
+};
+
 export type GetNearbyPlayersResponse = {
   type: "nearby_players";
   postId: string;
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { WORLD_HEIGHT, WORLD_WIDTH } from '../data/world';
+import { BUY_LAND_REQUEST, MOVE_PLAYER_REQUEST, PLANT_TREE_REQUEST } from './requests';
+import { validate } from './schema';
+
+describe('position requests', () => {
+  it('accept positions up to the edge of the world', () => {
+    const edge = { x: WORLD_WIDTH / 2, z: -WORLD_HEIGHT / 2 };
+
+    expect(validate(BUY_LAND_REQUEST, edge)).toEqual({ valid: true, value: edge });
+    expect(validate(PLANT_TREE_REQUEST, { treeType: 'oak', ...edge }).valid).toBe(true);
+    expect(validate(MOVE_PLAYER_REQUEST, { ...edge, y: 12.5 }).valid).toBe(true);
+  });
+
+  it('refuse positions outside the world', () => {
+    expect(validate(BUY_LAND_REQUEST, { x: WORLD_WIDTH, z: 0 })).toEqual({
+      valid: false,
+      errors: [{ field: 'x', message: `must be at most ${WORLD_WIDTH / 2}` }]
+    });
+    expect(validate(MOVE_PLAYER_REQUEST, { x: 0, y: 0, z: -WORLD_HEIGHT })).toEqual({
+      valid: false,
+      errors: [{ field: 'z', message: `must be at least ${-WORLD_HEIGHT / 2}` }]
+    });
+  });
+
+  it('refuse numbers that are not finite', () => {
+    for (const x of [NaN, Infinity, -Infinity]) {
+      expect(validate(PLANT_TREE_REQUEST, { treeType: 'oak', x, z: 0 }).valid).toBe(false);
+    }
+    expect(validate(MOVE_PLAYER_REQUEST, { x: 0, y: Infinity, z: 0 }).valid).toBe(false);
+  });
+});
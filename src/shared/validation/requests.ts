@@ -0,0 +1,46 @@
+import { isTreeType } from '../data/species';
+import { isItemId } from '../data/items';
+import { isRecipeId } from '../data/recipes';
+import { WORLD_HEIGHT, WORLD_WIDTH } from '../data/world';
+import { Infer, number, object, oneOf, optional, Schema, string } from './schema';
+
+// Bodies accepted by each API route
+
+// Positions in the world, which is centred on the origin
+const worldX = number({ min: -WORLD_WIDTH / 2, max: WORLD_WIDTH / 2 });
+const worldZ = number({ min: -WORLD_HEIGHT / 2, max: WORLD_HEIGHT / 2 });
+const height = number(); // Only ever taken from the ground, so anything finite will do
+const quantity = optional(number({ min: 1, max: 100, integer: true }), 1);
+const treeType = oneOf(isTreeType, 'tree type');
+const treeTarget = object({ treeId: string({ maxLength: 100 }) });
+
+// GET routes take nothing beyond who is asking
+export const NO_BODY: Schema<void> = (value, field) =>
+  value === undefined || (typeof value === 'object' && value !== null && Object.keys(value).length === 0)
+    ? { valid: true, value: undefined }
+    : { valid: false, errors: [{ field, message: 'must be empty' }] };
+
+export const PLANT_TREE_REQUEST = object({ treeType, x: worldX, z: worldZ });
+export const BUY_LAND_REQUEST = object({ x: worldX, z: worldZ });
+export const MOVE_PLAYER_REQUEST = object({ x: worldX, y: height, z: worldZ });
+export const WATER_TREE_REQUEST = treeTarget;
+export const HARVEST_TREE_REQUEST = treeTarget;
+export const CLEAR_TREE_REQUEST = treeTarget;
+export const TREAT_TREE_REQUEST = treeTarget;
+export const FERTILIZE_REQUEST = object({ plotId: string({ maxLength: 100 }) });
+export const BUY_ITEM_REQUEST = object({ itemId: oneOf(isItemId, 'item'), quantity });
+export const CRAFT_REQUEST = object({ recipeId: oneOf(isRecipeId, 'recipe'), quantity });
+export const BUY_SEEDS_REQUEST = object({ treeType, quantity });
+export const BUY_WATER_REQUEST = object({ quantity });
+export const SEND_CHAT_MESSAGE_REQUEST = object({ message: string({ maxLength: 200 }) });
+
+export type PlantTreeRequest = Infer<typeof PLANT_TREE_REQUEST>;
+export type BuyLandRequest = Infer<typeof BUY_LAND_REQUEST>;
+export type MovePlayerRequest = Infer<typeof MOVE_PLAYER_REQUEST>;
+export type TreeActionRequest = Infer<typeof treeTarget>;
+export type FertilizeRequest = Infer<typeof FERTILIZE_REQUEST>;
+export type BuyItemRequest = Infer<typeof BUY_ITEM_REQUEST>;
+export type CraftRequest = Infer<typeof CRAFT_REQUEST>;
+export type BuySeedsRequest = Infer<typeof BUY_SEEDS_REQUEST>;
+export type BuyWaterRequest = Infer<typeof BUY_WATER_REQUEST>;
+export type SendChatMessageRequest = Infer<typeof SEND_CHAT_MESSAGE_REQUEST>;
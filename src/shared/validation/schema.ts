@@ -0,0 +1,78 @@
+// Minimal runtime schemas, shared so that the client checks input exactly as the server will
+
+export type FieldError = {
+  field: string;
+  message: string;
+};
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: FieldError[] };
+
+// Parses an unknown value into T, reporting every problem under its field path
+export type Schema<T> = (value: unknown, field: string) => ValidationResult<T>;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function fail<T>(field: string, message: string): ValidationResult<T> {
+  return { valid: false, errors: [{ field, message }] };
+}
+
+export function string(options: { minLength?: number; maxLength?: number } = {}): Schema<string> {
+  const { minLength = 1, maxLength = Infinity } = options;
+  return (value, field) => {
+    if (typeof value !== 'string') return fail(field, 'must be a string');
+    if (value.trim().length < minLength) return fail(field, minLength === 1 ? 'must not be empty' : `must be at least ${minLength} characters`);
+    if (value.length > maxLength) return fail(field, `must be at most ${maxLength} characters`);
+    return { valid: true, value };
+  };
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  const { min = -Infinity, max = Infinity, integer = false } = options;
+  return (value, field) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(field, 'must be a finite number');
+    if (integer && !Number.isInteger(value)) return fail(field, 'must be a whole number');
+    if (value < min) return fail(field, `must be at least ${min}`);
+    if (value > max) return fail(field, `must be at most ${max}`);
+    return { valid: true, value };
+  };
+}
+
+// One of a registry's ids, checked with the registry's own type guard
+export function oneOf<T extends string>(isValid: (value: unknown) => value is T, description: string): Schema<T> {
+  return (value, field) => isValid(value)
+    ? { valid: true, value }
+    : fail(field, `must be a known ${description}`);
+}
+
+export function optional<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return (value, field) => value === undefined ? { valid: true, value: fallback } : schema(value, field);
+}
+
+export function object<T extends Record<string, unknown>>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return (value, field) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(field, 'must be an object');
+
+    const input = value as Record<string, unknown>;
+    const output: Partial<T> = {};
+    const errors: FieldError[] = [];
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const result = shape[key](input[key], field ? `${field}.${key}` : key);
+      if (result.valid) {
+        output[key] = result.value;
+      } else {
+        errors.push(...result.errors);
+      }
+    }
+    return errors.length > 0 ? { valid: false, errors } : { valid: true, value: output as T };
+  };
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  return schema(value, '');
+}
+
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map(error => error.field ? `${error.field} ${error.message}` : error.message).join(', ');
+}